@@ -11,8 +11,13 @@ interface Language {
 	color: string;
 	is_featured: boolean;
 	total_votes: number;
+	homepage?: string | null;
 	current_month_points?: number;
 	current_month_voters?: number;
+	window_score?: number;
+	window_voters?: number;
+	rank_position?: number;
+	ranking_score?: number;
 }
 
 interface RankingStats {
@@ -21,16 +26,141 @@ interface RankingStats {
 	total_points: number | null;
 }
 
+type ScoringStrategyName = "linear" | "quadratic" | "borda" | "approval";
+
 interface RankingResponse {
 	month: string;
+	strategy: ScoringStrategyName;
 	ranking: Language[];
 	stats: RankingStats;
 }
 
+interface MonthSummary {
+	month: string;
+	finalized: boolean;
+	leader: string | null;
+}
+
+interface MonthsResponse {
+	current_month: string;
+	months: MonthSummary[];
+}
+
+interface RankingSnapshotEntry {
+	language_id: number;
+	language_name: string;
+	language_color: string | null;
+	rank: number;
+	points: number;
+	voters: number;
+	previous_rank: number | null;
+	rank_change: number | null;
+}
+
+interface HistoricalRankingResponse {
+	month: string;
+	strategy: ScoringStrategyName;
+	ranking: RankingSnapshotEntry[];
+}
+
+interface LanguageMonthHistory {
+	month: string;
+	points: number;
+	unique_voters: number;
+	average_points: number;
+	total_votes: number;
+	rank: number | null;
+	finalized: boolean;
+}
+
+interface LanguageHistoryResponse {
+	language: Language;
+	history: LanguageMonthHistory[];
+}
+
+interface SparklinePoint {
+	x: number;
+	y: number;
+}
+
+type RankingAlgorithm = "competition" | "dense" | "bayesian" | "wilson";
+
 interface LanguagesResponse {
 	top20: Language[];
 	additional: Language[];
 	total: number;
+	algorithm?: RankingAlgorithm;
+}
+
+// Página de GET /app/languages
+interface LanguagePageResponse {
+	languages: Language[];
+	total: number;
+	next_cursor: string | null;
+	sort: "total" | "month" | "name" | "voters";
+	algorithm: RankingAlgorithm;
+}
+
+// Resultado de GET /app/languages/search
+interface LanguageSearchResult {
+	id: number;
+	name: string;
+	matched_alias: string | null;
+	score: number;
+}
+
+interface LanguageSearchResponse {
+	query: string;
+	results: LanguageSearchResult[];
+}
+
+// Sugerencia pendiente de GET /app/languages/suggestions
+interface LanguageSuggestion {
+	id: number;
+	name: string;
+	description: string | null;
+	homepage: string | null;
+	suggested_by: number | null;
+	suggested_by_username: string | null;
+	upvotes: number;
+	has_upvoted: boolean;
+}
+
+// Edición propuesta de un lenguaje (POST /app/languages/:id/revisions)
+interface RevisionForm {
+	description: string;
+	color: string;
+	comment: string;
+}
+
+interface SuggestionForm {
+	name: string;
+	description: string;
+	homepage: string;
+}
+
+// Eventos del stream /app/ranking/stream
+interface LanguageRankingUpdate {
+	id: number;
+	total_votes: number;
+	current_month_points: number;
+	current_month_voters: number;
+	delta: number;
+}
+
+interface RankingUpdateEvent {
+	month: string;
+	languages: LanguageRankingUpdate[];
+	stats: RankingStats;
+}
+
+type RankingWindow = "3m" | "6m" | "12m" | "all";
+
+interface RollingRankingResponse {
+	month: string;
+	window: RankingWindow;
+	decay: number | null;
+	ranking: Language[];
 }
 
 interface VoteResponse {
@@ -39,9 +169,30 @@ interface VoteResponse {
 	remaining_points: number;
 }
 
+interface RemoveVoteResponse {
+	success: boolean;
+	message: string;
+	removed_points: number;
+	remaining_points: number;
+}
+
+interface BallotResponse {
+	success: boolean;
+	message: string;
+	votePoints: Record<number, number>;
+	totalPoints: number;
+	remaining_points: number;
+}
+
+interface BallotErrorResponse {
+	error?: string;
+	errors?: Record<number, string>;
+}
+
 interface AuthUser {
 	id: number;
-	githubId: number;
+	// Proveedor con el que se inició la sesión ("github", "gitlab"...)
+	provider: string;
 	username: string;
 	avatarUrl?: string;
 }
@@ -51,11 +202,75 @@ interface AuthResponse {
 	user?: AuthUser;
 }
 
+interface AuthProvider {
+	id: string;
+	name: string;
+}
+
+// Identidad enlazada a la cuenta (GET /app/account/identities)
+interface LinkedIdentity {
+	id: number;
+	provider: string;
+	username: string;
+	email: string | null;
+	created_at: string;
+	last_login_at: string;
+}
+
+// Sesión abierta en un dispositivo (GET /app/auth/sessions)
+interface ActiveSession {
+	id: number;
+	provider: string;
+	user_agent: string | null;
+	ip_address: string | null;
+	created_at: string;
+	last_seen_at: string;
+	current: boolean;
+}
+
+// Fusión de cuentas pendiente de confirmar (GET /app/account/merge)
+interface AccountMergePreview {
+	source: { id: number; username: string; avatar_url?: string };
+	identities: LinkedIdentity[];
+	month: string;
+	combinesVotes: boolean;
+	budget: number;
+	current: Record<number, number>;
+	incoming: Record<number, number>;
+	combined: Record<number, number>;
+}
+
+interface VotingRules {
+	vote_month: string;
+	scoring_strategy: ScoringStrategyName;
+	points_budget: number;
+	max_points_per_language: number;
+	min_increment: number;
+	max_increment: number;
+	carry_over: boolean;
+}
+
+interface VotingPeriod {
+	code: string;
+	starts_at: string;
+	ends_at: string;
+	timezone: string;
+	status: "scheduled" | "open" | "closed" | "finalized";
+}
+
+interface RulesResponse {
+	month: string;
+	rules: VotingRules;
+	period: VotingPeriod | null;
+}
+
 interface UserVotesResponse {
 	votePoints: Record<number, number>;
 	totalPoints: number;
+	budget: number;
 	remainingPoints: number;
 	votesCount: number;
+	strategy: ScoringStrategyName;
 	month: string;
 }
 
@@ -83,31 +298,150 @@ interface RankingApp {
 	currentMonth: string;
 
 	// Sistema de votación
+	rules: VotingRules | null;
+	period: VotingPeriod | null;
+	pointsBudget: number;
 	votePoints: Record<number, number>;
 	pointsUsed: number;
 	votingInProgress: boolean;
 	refreshingRanking: boolean;
 	selectedPoints: Record<number, number>;
 
+	// Planificador de reparto (papeleta completa)
+	plannerMode: boolean;
+	plannedPoints: Record<number, number>;
+	submittingBallot: boolean;
+
+	// Histórico de rankings mensuales ("" = mes actual en vivo)
+	availableMonths: MonthSummary[];
+	selectedMonth: string;
+	historicalRanking: RankingSnapshotEntry[];
+	loadingHistory: boolean;
+
+	// Vista del ranking: "" = total histórico, o ventana móvil con decaimiento opcional
+	rankingWindow: RankingWindow | "";
+	rankingDecay: string;
+
+	// Vista de detalle de un lenguaje
+	detailLanguage: Language | null;
+	languageHistory: LanguageMonthHistory[];
+	loadingDetail: boolean;
+	showRevisionForm: boolean;
+	revisionForm: RevisionForm;
+	submittingRevision: boolean;
+
+	// Actualizaciones en tiempo real
+	rankingAlgorithm: RankingAlgorithm | null;
+	streamConnected: boolean;
+
+	// Búsqueda de lenguajes (null = sin búsqueda activa; id → alias coincidente)
+	searchQuery: string;
+	searchMatches: Record<number, string | null> | null;
+	searching: boolean;
+
+	// Sugerencias de lenguajes de la comunidad
+	suggestions: LanguageSuggestion[];
+	suggestionForm: SuggestionForm;
+	showSuggestionForm: boolean;
+	submittingSuggestion: boolean;
+
+	// Proveedores de identidad disponibles para iniciar sesión
+	authProviders: AuthProvider[];
+
+	// Ajustes de la cuenta: identidades enlazadas y fusión pendiente
+	showSettings: boolean;
+	identities: LinkedIdentity[];
+	sessions: ActiveSession[];
+	pendingMerge: AccountMergePreview | null;
+	loadingSettings: boolean;
+	mergingAccounts: boolean;
+
 	// Métodos principales
 	init(): Promise<void>;
 	checkUrlErrors(): void;
 	loadRankingStats(): Promise<void>;
 	loadLanguages(): Promise<void>;
+	fetchRankedLanguages(): Promise<LanguagesResponse>;
+	isRollingView(): boolean;
+	getLanguageScoreText(language: Language): string;
+	getLanguageRank(language: Language, index: number): number;
+	getLiveRanks(): number[];
+	isSharedRank(rank: number, ranks: number[]): boolean;
+	formatRank(rank: number, ranks: number[]): string;
+	loadRules(): Promise<void>;
+	loadMonths(): Promise<void>;
+	selectMonth(month: string): Promise<void>;
+	getRankChangeSymbol(entry: RankingSnapshotEntry): string;
+	getRankChangeLabel(entry: RankingSnapshotEntry): string;
+	connectRankingStream(): void;
+	searchLanguages(): Promise<void>;
+	clearSearch(): void;
+	matchesSearch(language: Language): boolean;
+	isSearchMatch(language: Language): boolean;
+	getSearchAlias(language: Language): string | null;
+	hasSearchMatches(languages: Language[]): boolean;
+	applyRankingUpdate(event: RankingUpdateEvent): Promise<void>;
+
+	// Sugerencias de lenguajes
+	loadSuggestions(): Promise<void>;
+	toggleSuggestionForm(): void;
+	submitSuggestion(): Promise<void>;
+	toggleSuggestionUpvote(suggestion: LanguageSuggestion): Promise<void>;
+	canUpvoteSuggestion(suggestion: LanguageSuggestion): boolean;
+
+	// Detalle de lenguaje
+	openLanguageDetail(languageId: number): Promise<void>;
+	closeLanguageDetail(): void;
+	toggleRevisionForm(): void;
+	submitRevision(): Promise<void>;
+	getSparklineCoords(): SparklinePoint[];
+	getSparklinePoints(): string;
 
 	// Autenticación
+	loadAuthProviders(): Promise<void>;
 	checkAuth(): Promise<void>;
 	loadUserVotes(): Promise<void>;
-	login(): void;
+	login(providerId?: string): void;
 	logout(): Promise<void>;
+	clearAuthState(): void;
+
+	// Ajustes de la cuenta
+	openSettings(): Promise<void>;
+	closeSettings(): void;
+	loadIdentities(): Promise<void>;
+	loadSessions(): Promise<void>;
+	revokeSession(session: ActiveSession): Promise<void>;
+	signOutEverywhere(): Promise<void>;
+	describeSession(session: ActiveSession): string;
+	loadPendingMerge(): Promise<void>;
+	linkIdentity(providerId: string): void;
+	unlinkIdentity(identity: LinkedIdentity): Promise<void>;
+	confirmMerge(): Promise<void>;
+	cancelMerge(): Promise<void>;
+	getProviderName(providerId: string): string;
+	getAllocationSummary(allocation: Record<number, number>): string;
 
 	// Sistema de votación
+	isVotingOpen(): boolean;
+	getPeriodClosingText(): string;
+	getStrategyLabel(): string;
+	getAllocationCost(allocation: Record<number, number>): number;
+	getLanguageCap(): number;
+	getPointOptions(): number[];
 	getLanguagePoints(languageId: number): number;
 	canAddPoints(languageId: number, pointsToAdd: number): boolean;
 	getAddPointsButtonText(languageId: number, pointsToAdd: number): string;
 	addPointsToLanguage(languageId: number, points: number): Promise<void>;
+	removePointsFromLanguage(languageId: number): Promise<void>;
 	updatePointsUsed(): void;
 
+	// Planificador de reparto
+	togglePlanner(): void;
+	getPlannedPoints(languageId: number): number;
+	getPlannedTotal(): number;
+	adjustPlannedPoints(languageId: number, delta: number): void;
+	submitBallot(): Promise<void>;
+
 	// Funciones legacy (mantener compatibilidad)
 	canVote(languageId: number, points: number): boolean;
 	getVoteButtonText(languageId: number, points: number): string;
@@ -136,6 +470,36 @@ declare global {
 	}
 }
 
+// Conexión SSE compartida; fuera del estado para que Alpine no la haga reactiva
+let rankingEventSource: EventSource | null = null;
+
+// Última búsqueda lanzada, para descartar respuestas que lleguen tarde
+let latestSearchId = 0;
+
+// Renovación de sesión en curso, compartida por las peticiones que reciben un 401
+let sessionRefresh: Promise<boolean> | null = null;
+
+// Pide un access token nuevo; el servidor rota el token de refresco (cookie httpOnly)
+function refreshSession(): Promise<boolean> {
+	if (!sessionRefresh) {
+		sessionRefresh = fetch("/app/auth/refresh", { method: "POST" })
+			// 409: otra pestaña acaba de renovar la sesión y las cookies ya son nuevas
+			.then((response) => response.ok || response.status === 409)
+			.catch(() => false)
+			.finally(() => {
+				sessionRefresh = null;
+			});
+	}
+	return sessionRefresh;
+}
+
+// fetch para endpoints con sesión: ante un 401 renueva la sesión y repite una vez
+async function authFetch(input: string, init?: RequestInit): Promise<Response> {
+	const response = await fetch(input, init);
+	if (response.status !== 401) return response;
+	return (await refreshSession()) ? fetch(input, init) : response;
+}
+
 const rankingApp: RankingApp = {
 	// Estado inicial
 	loading: true,
@@ -145,11 +509,45 @@ const rankingApp: RankingApp = {
 	additionalLanguages: [],
 	stats: null,
 	currentMonth: "",
+	rules: null,
+	period: null,
+	pointsBudget: 0,
 	votePoints: {},
 	pointsUsed: 0,
 	votingInProgress: false,
 	refreshingRanking: false,
 	selectedPoints: {},
+	plannerMode: false,
+	plannedPoints: {},
+	submittingBallot: false,
+	availableMonths: [],
+	selectedMonth: "",
+	historicalRanking: [],
+	loadingHistory: false,
+	rankingWindow: "",
+	rankingDecay: "",
+	detailLanguage: null,
+	languageHistory: [],
+	loadingDetail: false,
+	showRevisionForm: false,
+	revisionForm: { description: "", color: "", comment: "" },
+	submittingRevision: false,
+	rankingAlgorithm: null,
+	streamConnected: false,
+	searchQuery: "",
+	searchMatches: null,
+	searching: false,
+	suggestions: [],
+	suggestionForm: { name: "", description: "", homepage: "" },
+	showSuggestionForm: false,
+	submittingSuggestion: false,
+	authProviders: [{ id: "github", name: "GitHub" }],
+	showSettings: false,
+	identities: [],
+	sessions: [],
+	pendingMerge: null,
+	loadingSettings: false,
+	mergingAccounts: false,
 
 	// Inicialización
 	async init() {
@@ -158,17 +556,35 @@ const rankingApp: RankingApp = {
 		// Verificar si hay errores en la URL (ej: callback de auth fallido)
 		this.checkUrlErrors();
 
+		// Las reglas del mes determinan los límites de la UI
+		await this.loadRules();
+		// Botones de login de cada proveedor configurado
+		await this.loadAuthProviders();
 		// Verificar autenticación primero
 		await this.checkAuth();
 		// Cargar votos existentes si está autenticado
 		if (this.isAuthenticated) {
 			await this.loadUserVotes();
 		}
+		// Volviendo de enlazar una cuenta: mostrar los ajustes actualizados
+		if (this.showSettings) {
+			if (this.isAuthenticated) {
+				await this.openSettings();
+			} else {
+				this.showSettings = false;
+			}
+		}
 		// Solo cargar lenguajes, ya que contiene tanto top20 como additional
 		await this.loadLanguages();
 		// También cargar stats del mes actual
 		await this.loadRankingStats();
+		// Meses disponibles para el selector de histórico
+		await this.loadMonths();
+		// Sugerencias pendientes (con los apoyos del usuario si está autenticado)
+		await this.loadSuggestions();
 		this.loading = false;
+		// Recibir los votos de otros usuarios sin recargar
+		this.connectRankingStream();
 	},
 
 	// Verificar errores en la URL
@@ -178,9 +594,35 @@ const rankingApp: RankingApp = {
 
 		if (error === "auth_failed") {
 			this.showErrorMessage("Authentication failed. Please try again.");
+		} else if (error === "auth_state_invalid") {
+			// El state de OAuth no coincide o ha caducado (posible CSRF)
+			this.showErrorMessage(
+				"Your sign-in request expired or could not be verified. Please sign in again.",
+			);
+		}
+
+		// Vuelta de enlazar una identidad desde los ajustes
+		const linked = params.get("linked");
+		if (linked) {
+			this.showSuccessMessage(
+				`${this.getProviderName(linked)} account linked.`,
+			);
+		}
+		const merge = params.get("merge");
+		if (merge === "pending") {
+			this.showWarningMessage(
+				"That account already belongs to another user. Review the merge in your account settings.",
+			);
+		}
+
+		if (error || linked || merge) {
 			// Limpiar la URL sin recargar
 			window.history.replaceState({}, document.title, window.location.pathname);
 		}
+		if (linked || merge) {
+			// Se abren cuando checkAuth haya confirmado la sesión
+			this.showSettings = true;
+		}
 	},
 
 	// Cargar estadísticas del ranking actual
@@ -200,18 +642,488 @@ const rankingApp: RankingApp = {
 	// Cargar todos los lenguajes
 	async loadLanguages() {
 		try {
-			const response = await fetch("/app/languages");
-			if (!response.ok) throw new Error("Failed to load languages");
-
-			const data: LanguagesResponse = await response.json();
+			const data = await this.fetchRankedLanguages();
 			// Usar tanto top20 como additional para ranking unificado
 			this.featuredLanguages = data.top20;
 			this.additionalLanguages = data.additional;
+			if (data.algorithm) this.rankingAlgorithm = data.algorithm;
 		} catch (error) {
 			console.error("Error loading languages:", error);
 		}
 	},
 
+	// Obtener los lenguajes ordenados según la vista de ranking elegida
+	async fetchRankedLanguages(): Promise<LanguagesResponse> {
+		if (!this.isRollingView()) {
+			// Recorrer todas las páginas del listado
+			const languages: Language[] = [];
+			let cursor: string | null = null;
+			let algorithm: RankingAlgorithm | undefined;
+			do {
+				const params = new URLSearchParams({ limit: "100" });
+				if (cursor) params.set("cursor", cursor);
+
+				const response = await fetch(`/app/languages?${params}`);
+				if (!response.ok) throw new Error("Failed to load languages");
+
+				const page: LanguagePageResponse = await response.json();
+				languages.push(...page.languages);
+				cursor = page.next_cursor;
+				algorithm = page.algorithm;
+			} while (cursor);
+
+			return {
+				top20: languages.slice(0, 20),
+				additional: languages.slice(20),
+				total: languages.length,
+				algorithm,
+			};
+		}
+
+		const params = new URLSearchParams({
+			window: this.rankingWindow || "all",
+			limit: "200",
+		});
+		if (this.rankingDecay) params.set("decay", this.rankingDecay);
+
+		const response = await fetch(`/app/ranking?${params}`);
+		if (!response.ok) throw new Error("Failed to load ranking");
+
+		const data: RollingRankingResponse = await response.json();
+		return {
+			top20: data.ranking.slice(0, 20),
+			additional: data.ranking.slice(20),
+			total: data.ranking.length,
+		};
+	},
+
+	isRollingView(): boolean {
+		return this.rankingWindow !== "" || this.rankingDecay !== "";
+	},
+
+	// Puntuación mostrada en cada tarjeta según la vista de ranking
+	getLanguageScoreText(language: Language): string {
+		if (!this.isRollingView()) return `${language.total_votes} total votes`;
+		const label = this.rankingDecay ? "weighted points" : "points";
+		return `${language.window_score ?? 0} ${label}`;
+	},
+
+	// Posición calculada por el backend (compartida en empates)
+	getLanguageRank(language: Language, index: number): number {
+		return language.rank_position ?? index + 1;
+	},
+
+	getLiveRanks(): number[] {
+		return [...this.featuredLanguages, ...this.additionalLanguages].map(
+			(language, index) => this.getLanguageRank(language, index),
+		);
+	},
+
+	isSharedRank(rank: number, ranks: number[]): boolean {
+		return ranks.filter((other) => other === rank).length > 1;
+	},
+
+	// "=3" cuando varios lenguajes comparten la posición
+	formatRank(rank: number, ranks: number[]): string {
+		return this.isSharedRank(rank, ranks) ? `=${rank}` : `${rank}`;
+	},
+
+	// Abrir la conexión SSE con el ranking (una sola por página)
+	connectRankingStream() {
+		if (rankingEventSource || typeof EventSource === "undefined") return;
+
+		rankingEventSource = new EventSource("/app/ranking/stream");
+		rankingEventSource.onopen = () => {
+			this.streamConnected = true;
+		};
+		// EventSource reintenta solo; mientras tanto se refresca tras cada voto
+		rankingEventSource.onerror = () => {
+			this.streamConnected = false;
+		};
+		rankingEventSource.addEventListener("ranking", (message) => {
+			const event: RankingUpdateEvent = JSON.parse(
+				(message as MessageEvent<string>).data,
+			);
+			this.applyRankingUpdate(event).catch((error) =>
+				console.error("Error applying ranking update:", error),
+			);
+		});
+	},
+
+	// Aplicar en el momento los nuevos totales recibidos por el stream
+	async applyRankingUpdate(event: RankingUpdateEvent) {
+		const updates = new Map(event.languages.map((update) => [update.id, update]));
+		const languages = [...this.featuredLanguages, ...this.additionalLanguages];
+		for (const language of languages) {
+			const update = updates.get(language.id);
+			if (!update) continue;
+			language.total_votes = update.total_votes;
+			language.current_month_points = update.current_month_points;
+			language.current_month_voters = update.current_month_voters;
+		}
+
+		if (event.month === this.currentMonth) {
+			this.stats = event.stats;
+		}
+
+		// Las vistas móviles y los algoritmos con prior dependen de todo el ranking
+		if (
+			this.isRollingView() ||
+			(this.rankingAlgorithm !== "competition" &&
+				this.rankingAlgorithm !== "dense")
+		) {
+			await this.updateLanguageRanking();
+			return;
+		}
+
+		languages.sort(
+			(a, b) => b.total_votes - a.total_votes || a.name.localeCompare(b.name),
+		);
+		let rank = 0;
+		let previousVotes: number | null = null;
+		languages.forEach((language, index) => {
+			if (language.total_votes !== previousVotes) {
+				rank = this.rankingAlgorithm === "dense" ? rank + 1 : index + 1;
+				previousVotes = language.total_votes;
+			}
+			language.rank_position = rank;
+		});
+
+		this.featuredLanguages = languages.slice(0, 20);
+		this.additionalLanguages = languages.slice(20);
+	},
+
+	// Buscar lenguajes por nombre o alias mientras se escribe
+	async searchLanguages() {
+		const query = this.searchQuery.trim();
+		const searchId = ++latestSearchId;
+		if (!query) {
+			this.searchMatches = null;
+			this.searching = false;
+			return;
+		}
+
+		this.searching = true;
+		try {
+			const params = new URLSearchParams({ q: query, limit: "50" });
+			const response = await fetch(`/app/languages/search?${params}`);
+			if (!response.ok) throw new Error("Failed to search languages");
+
+			const data: LanguageSearchResponse = await response.json();
+			if (searchId !== latestSearchId) return;
+
+			this.searchMatches = Object.fromEntries(
+				data.results.map((result) => [result.id, result.matched_alias]),
+			);
+		} catch (error) {
+			console.error("Error searching languages:", error);
+		} finally {
+			if (searchId === latestSearchId) this.searching = false;
+		}
+	},
+
+	clearSearch() {
+		latestSearchId++;
+		this.searchQuery = "";
+		this.searchMatches = null;
+		this.searching = false;
+	},
+
+	// Sin búsqueda activa se muestran todos los lenguajes
+	matchesSearch(language: Language): boolean {
+		return this.searchMatches === null || language.id in this.searchMatches;
+	},
+
+	isSearchMatch(language: Language): boolean {
+		return this.searchMatches !== null && language.id in this.searchMatches;
+	},
+
+	// Alias por el que se ha encontrado el lenguaje ("golang" → Go)
+	getSearchAlias(language: Language): string | null {
+		return this.searchMatches?.[language.id] ?? null;
+	},
+
+	hasSearchMatches(languages: Language[]): boolean {
+		return languages.some((language) => this.matchesSearch(language));
+	},
+
+	// Cargar meses con ranking finalizado para el selector de histórico
+	async loadMonths() {
+		try {
+			const response = await fetch("/app/months");
+			if (!response.ok) throw new Error("Failed to load months");
+
+			const data: MonthsResponse = await response.json();
+			this.availableMonths = data.months.filter(
+				(month) => month.finalized && month.month !== data.current_month,
+			);
+		} catch (error) {
+			console.error("Error loading months:", error);
+		}
+	},
+
+	// Cambiar entre el ranking en vivo y el ranking final de un mes pasado
+	async selectMonth(month: string) {
+		this.selectedMonth = month;
+		this.historicalRanking = [];
+		if (!month) return;
+
+		this.plannerMode = false;
+		this.plannedPoints = {};
+		this.loadingHistory = true;
+
+		try {
+			const response = await fetch(`/app/ranking/${month}`);
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to load ranking");
+			}
+
+			const data: HistoricalRankingResponse = await response.json();
+			this.historicalRanking = data.ranking;
+		} catch (error) {
+			console.error("Error loading historical ranking:", error);
+			const errorMessage =
+				error instanceof Error ? error.message : "Failed to load ranking";
+			this.showErrorMessage(errorMessage);
+			this.selectedMonth = "";
+		} finally {
+			this.loadingHistory = false;
+		}
+	},
+
+	// Flecha de movimiento respecto al mes anterior
+	getRankChangeSymbol(entry: RankingSnapshotEntry): string {
+		if (entry.rank_change === null) return "•";
+		if (entry.rank_change > 0) return "▲";
+		if (entry.rank_change < 0) return "▼";
+		return "=";
+	},
+
+	getRankChangeLabel(entry: RankingSnapshotEntry): string {
+		if (entry.rank_change === null) return "New";
+		if (entry.rank_change === 0) return "No change";
+		const places = Math.abs(entry.rank_change);
+		const direction = entry.rank_change > 0 ? "Up" : "Down";
+		return `${direction} ${places} place${places === 1 ? "" : "s"}`;
+	},
+
+	// Abrir la vista de detalle con el historial mensual del lenguaje
+	async openLanguageDetail(languageId: number) {
+		this.loadingDetail = true;
+		this.languageHistory = [];
+		this.detailLanguage =
+			[...this.featuredLanguages, ...this.additionalLanguages].find(
+				(language) => language.id === languageId,
+			) || null;
+
+		try {
+			const response = await fetch(`/app/languages/${languageId}/history`);
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to load language history");
+			}
+
+			const data: LanguageHistoryResponse = await response.json();
+			this.detailLanguage = data.language;
+			this.languageHistory = data.history;
+		} catch (error) {
+			console.error("Error loading language history:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Failed to load language history";
+			this.showErrorMessage(errorMessage);
+			this.detailLanguage = null;
+		} finally {
+			this.loadingDetail = false;
+		}
+	},
+
+	closeLanguageDetail() {
+		this.detailLanguage = null;
+		this.languageHistory = [];
+		this.showRevisionForm = false;
+	},
+
+	// Abrir el formulario de edición con los valores actuales del lenguaje
+	toggleRevisionForm() {
+		this.showRevisionForm = !this.showRevisionForm;
+		if (this.showRevisionForm && this.detailLanguage) {
+			this.revisionForm = {
+				description: this.detailLanguage.description || "",
+				color: this.detailLanguage.color,
+				comment: "",
+			};
+		}
+	},
+
+	// Proponer una nueva descripción o color; queda pendiente de moderación
+	async submitRevision() {
+		const language = this.detailLanguage;
+		if (!this.isAuthenticated || !language || this.submittingRevision) return;
+
+		const description = this.revisionForm.description.trim();
+		const color = this.revisionForm.color.toLowerCase();
+		const changes: Partial<RevisionForm> = {};
+		if (description && description !== language.description) {
+			changes.description = description;
+		}
+		if (color && color !== language.color.toLowerCase()) {
+			changes.color = color;
+		}
+		if (Object.keys(changes).length === 0) {
+			this.showWarningMessage("Change the description or the colour first.");
+			return;
+		}
+
+		this.submittingRevision = true;
+
+		try {
+			const response = await authFetch(`/app/languages/${language.id}/revisions`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					...changes,
+					comment: this.revisionForm.comment.trim() || null,
+				}),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to propose edit");
+			}
+
+			this.showRevisionForm = false;
+			this.showSuccessMessage(
+				"Thanks! Your edit will be applied once a moderator reviews it.",
+			);
+		} catch (error) {
+			console.error("Error proposing edit:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Error proposing edit. Please try again.";
+			this.showErrorMessage(errorMessage);
+		} finally {
+			this.submittingRevision = false;
+		}
+	},
+
+	// Coordenadas de la sparkline de puntos mensuales (viewBox 240x60)
+	getSparklineCoords(): SparklinePoint[] {
+		const width = 240;
+		const height = 60;
+		const padding = 4;
+		const values = this.languageHistory.map((month) => month.points);
+		if (values.length === 0) return [];
+
+		const min = Math.min(...values);
+		const range = Math.max(...values) - min || 1;
+		const step =
+			values.length > 1 ? (width - padding * 2) / (values.length - 1) : 0;
+
+		return values.map((value, index) => ({
+			x: values.length > 1 ? padding + index * step : width / 2,
+			y: height - padding - ((value - min) / range) * (height - padding * 2),
+		}));
+	},
+
+	getSparklinePoints(): string {
+		return this.getSparklineCoords()
+			.map((point) => `${point.x.toFixed(1)},${point.y.toFixed(1)}`)
+			.join(" ");
+	},
+
+	// Cargar reglas de votación del mes actual
+	async loadRules() {
+		try {
+			const response = await fetch("/app/rules");
+			if (!response.ok) throw new Error("Failed to load voting rules");
+
+			const data: RulesResponse = await response.json();
+			this.rules = data.rules;
+			this.period = data.period;
+			if (!this.isAuthenticated) {
+				this.pointsBudget = data.rules.points_budget;
+			}
+		} catch (error) {
+			console.error("Error loading voting rules:", error);
+		}
+	},
+
+	// El periodo de votación del mes admite votos ahora mismo
+	isVotingOpen(): boolean {
+		if (!this.period || this.period.status !== "open") return false;
+		const now = Date.now();
+		return (
+			new Date(this.period.starts_at).getTime() <= now &&
+			now < new Date(this.period.ends_at).getTime()
+		);
+	},
+
+	// Texto con el cierre (o estado) del periodo de votación actual
+	getPeriodClosingText(): string {
+		if (!this.period) return "Voting is closed";
+		if (!this.isVotingOpen()) return `Voting for ${this.period.code} is closed`;
+		return `Voting closes ${new Date(this.period.ends_at).toLocaleString()}`;
+	},
+
+	// Nombre legible de la estrategia de puntuación del mes
+	getStrategyLabel(): string {
+		switch (this.rules?.scoring_strategy) {
+			case "quadratic":
+				return "Quadratic voting";
+			case "borda":
+				return "Ranked ballot (Borda count)";
+			case "approval":
+				return "Approval voting";
+			default:
+				return "Points voting";
+		}
+	},
+
+	// Presupuesto consumido por un reparto (mismo cálculo que el backend)
+	getAllocationCost(allocation: Record<number, number>): number {
+		const values = Object.values(allocation).filter((points) => points > 0);
+		switch (this.rules?.scoring_strategy) {
+			case "quadratic":
+				return values.reduce((sum, votes) => sum + votes * votes, 0);
+			case "borda":
+			case "approval":
+				return values.length;
+			default:
+				return values.reduce((sum, points) => sum + points, 0);
+		}
+	},
+
+	// Máximo de puntos por lenguaje según las reglas del mes
+	getLanguageCap(): number {
+		switch (this.rules?.scoring_strategy) {
+			case "borda":
+				// En Borda el valor es la posición en la papeleta
+				return this.rules.points_budget;
+			case "approval":
+				return 1;
+			default:
+				return this.rules?.max_points_per_language ?? 0;
+		}
+	},
+
+	// Opciones de puntos que se pueden agregar de una vez
+	getPointOptions(): number[] {
+		if (!this.rules) return [];
+		if (this.rules.scoring_strategy === "approval") return [1];
+		// Borda solo admite papeletas completas desde el planificador
+		if (this.rules.scoring_strategy === "borda") return [];
+
+		const options: number[] = [];
+		for (let i = this.rules.min_increment; i <= this.rules.max_increment; i++) {
+			options.push(i);
+		}
+		return options;
+	},
+
 	// Obtener puntos actuales de un lenguaje (sistema acumulativo)
 	getLanguagePoints(languageId: number): number {
 		// En el sistema acumulativo, necesitamos sumar todos los votos por este lenguaje
@@ -221,16 +1133,27 @@ const rankingApp: RankingApp = {
 
 	// Verificar si puede agregar puntos (sistema acumulativo)
 	canAddPoints(languageId: number, pointsToAdd: number): boolean {
-		if (!this.isAuthenticated) return false;
+		if (!this.isAuthenticated || !this.rules) return false;
 		if (this.votingInProgress) return false;
-		if (!pointsToAdd || pointsToAdd <= 0 || pointsToAdd > 5) return false;
-
-		// Verificar límite por lenguaje (máximo 5 puntos)
+		if (!this.isVotingOpen()) return false;
+		if (this.rules.scoring_strategy === "borda") return false;
+		if (
+			!pointsToAdd ||
+			pointsToAdd < this.rules.min_increment ||
+			pointsToAdd > this.rules.max_increment
+		)
+			return false;
+
+		// Verificar límite por lenguaje
 		const currentLanguagePoints = this.getLanguagePoints(languageId);
-		if (currentLanguagePoints + pointsToAdd > 5) return false;
+		if (currentLanguagePoints + pointsToAdd > this.getLanguageCap()) return false;
 
-		// Verificar límite total mensual (máximo 10 puntos)
-		if (this.pointsUsed + pointsToAdd > 10) return false;
+		// Verificar presupuesto mensual con el coste de la estrategia
+		const newCost = this.getAllocationCost({
+			...this.votePoints,
+			[languageId]: currentLanguagePoints + pointsToAdd,
+		});
+		if (newCost > this.pointsBudget) return false;
 
 		return true;
 	},
@@ -239,17 +1162,24 @@ const rankingApp: RankingApp = {
 	getAddPointsButtonText(languageId: number, pointsToAdd: number): string {
 		if (!this.isAuthenticated) return "Sign in to vote";
 		if (this.votingInProgress) return "Voting...";
+		if (!this.isVotingOpen()) return "Voting closed";
+		if (this.rules?.scoring_strategy === "borda") return "Use planner";
 		if (!pointsToAdd || pointsToAdd <= 0) return "Invalid points";
 
 		const currentLanguagePoints = this.getLanguagePoints(languageId);
+		const cap = this.getLanguageCap();
 
-		if (currentLanguagePoints + pointsToAdd > 5) {
-			const remaining = 5 - currentLanguagePoints;
+		if (currentLanguagePoints + pointsToAdd > cap) {
+			const remaining = cap - currentLanguagePoints;
 			return remaining > 0 ? `${remaining} left` : "Max reached";
 		}
 
-		if (this.pointsUsed + pointsToAdd > 10) {
-			const remaining = 10 - this.pointsUsed;
+		const newCost = this.getAllocationCost({
+			...this.votePoints,
+			[languageId]: currentLanguagePoints + pointsToAdd,
+		});
+		if (newCost > this.pointsBudget) {
+			const remaining = this.pointsBudget - this.pointsUsed;
 			return remaining > 0 ? `${remaining} left` : "No points";
 		}
 
@@ -266,77 +1196,139 @@ const rankingApp: RankingApp = {
 		if (!this.canAddPoints(languageId, points)) {
 			// Mostrar mensaje informativo específico
 			const currentLanguagePoints = this.getLanguagePoints(languageId);
+			const cap = this.getLanguageCap();
 
-			if (currentLanguagePoints + points > 5) {
-				const remaining = 5 - currentLanguagePoints;
+			if (!this.isVotingOpen()) {
+				this.showInfoMessage(this.getPeriodClosingText());
+			} else if (this.rules?.scoring_strategy === "borda") {
+				this.showInfoMessage(
+					"This month uses a ranked ballot. Use the planner to order your languages.",
+				);
+			} else if (currentLanguagePoints + points > cap) {
+				const remaining = cap - currentLanguagePoints;
 				if (remaining > 0) {
 					this.showInfoMessage(
 						`This language already has ${currentLanguagePoints} points. You can add ${remaining} more points maximum.`,
 					);
 				} else {
 					this.showInfoMessage(
-						`This language already has the maximum of 5 points this month.`,
+						`This language already has the maximum of ${cap} points this month.`,
 					);
 				}
-			} else if (this.pointsUsed + points > 10) {
-				const remaining = 10 - this.pointsUsed;
+			} else if (
+				this.getAllocationCost({
+					...this.votePoints,
+					[languageId]: currentLanguagePoints + points,
+				}) > this.pointsBudget
+			) {
+				const remaining = this.pointsBudget - this.pointsUsed;
 				if (remaining > 0) {
 					this.showInfoMessage(
-						`You have used ${this.pointsUsed}/10 points this month. You can only add ${remaining} more points.`,
+						`You have used ${this.pointsUsed}/${this.pointsBudget} points this month. You can only add ${remaining} more points.`,
 					);
 				} else {
 					this.showInfoMessage(
-						`You have used all 10 points for this month. Come back next month to vote again!`,
+						`You have used all ${this.pointsBudget} points for this month. Come back next month to vote again!`,
 					);
 				}
 			}
 			return;
 		}
 
-		const numPoints = typeof points === "string" ? parseInt(points) : points;
+		const numPoints = typeof points === "string" ? parseInt(points) : points;
+		this.votingInProgress = true;
+
+		try {
+			const response = await authFetch("/app/vote", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					languageId,
+					points: numPoints,
+				}),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(
+					errorData.error || errorData.message || "Failed to vote",
+				);
+			}
+
+			const data = await response.json();
+
+			// Actualizar estado local
+			this.votePoints[languageId] =
+				data.language_total_points ||
+				(this.votePoints[languageId] || 0) + numPoints;
+			this.updatePointsUsed();
+
+			// Mostrar mensaje de éxito
+			this.showSuccessMessage(
+				data.message || `Added ${numPoints} points successfully!`,
+			);
+
+			// Refrescar datos (el stream ya trae el ranking si está conectado)
+			await this.loadUserVotes();
+			if (!this.streamConnected) await this.updateLanguageRanking();
+		} catch (error) {
+			console.error("Error voting:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Error submitting vote. Please try again.";
+			this.showErrorMessage(errorMessage);
+		} finally {
+			this.votingInProgress = false;
+		}
+	},
+
+	// Retirar todos los puntos de un lenguaje en el mes actual
+	async removePointsFromLanguage(languageId: number) {
+		if (!this.isAuthenticated) {
+			this.login();
+			return;
+		}
+
+		if (this.votingInProgress || this.getLanguagePoints(languageId) === 0) {
+			return;
+		}
+
 		this.votingInProgress = true;
 
 		try {
-			const response = await fetch("/app/vote", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify({
-					languageId,
-					points: numPoints,
-				}),
+			const response = await authFetch(`/app/vote/${languageId}`, {
+				method: "DELETE",
 			});
 
 			if (!response.ok) {
-				const errorData = await response.json();
+				const errorData = await response.json().catch(() => ({}));
 				throw new Error(
-					errorData.error || errorData.message || "Failed to vote",
+					errorData.error || errorData.message || "Failed to remove points",
 				);
 			}
 
-			const data = await response.json();
+			const data: RemoveVoteResponse = await response.json();
 
 			// Actualizar estado local
-			this.votePoints[languageId] =
-				data.language_total_points ||
-				(this.votePoints[languageId] || 0) + numPoints;
+			this.votePoints[languageId] = 0;
 			this.updatePointsUsed();
 
-			// Mostrar mensaje de éxito
 			this.showSuccessMessage(
-				data.message || `Added ${numPoints} points successfully!`,
+				`${data.message} ${data.remaining_points} points available.`,
 			);
 
-			// Refrescar datos
+			// Refrescar datos (el stream ya trae el ranking si está conectado)
 			await this.loadUserVotes();
-			await this.updateLanguageRanking();
+			if (!this.streamConnected) await this.updateLanguageRanking();
 		} catch (error) {
-			console.error("Error voting:", error);
+			console.error("Error removing points:", error);
 			const errorMessage =
 				error instanceof Error
 					? error.message
-					: "Error submitting vote. Please try again.";
+					: "Error removing points. Please try again.";
 			this.showErrorMessage(errorMessage);
 		} finally {
 			this.votingInProgress = false;
@@ -345,19 +1337,20 @@ const rankingApp: RankingApp = {
 
 	// Verificar si puede votar
 	canVote(languageId: number, points: number): boolean {
-		if (!this.isAuthenticated) return false;
+		if (!this.isAuthenticated || !this.rules) return false;
 
 		// Convertir a número para asegurar tipo correcto
 		const numPoints = typeof points === "string" ? parseInt(points) : points;
 
-		if (!numPoints || numPoints <= 0 || numPoints > 5) return false;
+		if (!numPoints || numPoints <= 0 || numPoints > this.rules.max_increment)
+			return false;
 		if (this.votingInProgress) return false;
 
 		// Solo verificar límite total de puntos (la lógica de slots la maneja el backend)
 		const currentPoints = this.votePoints[languageId] || 0;
 		const newTotal = this.pointsUsed - currentPoints + numPoints;
 
-		return newTotal <= 10;
+		return newTotal <= this.pointsBudget;
 	},
 
 	// Texto del botón de voto
@@ -384,7 +1377,7 @@ const rankingApp: RankingApp = {
 		this.votingInProgress = true;
 
 		try {
-			const response = await fetch("/app/vote", {
+			const response = await authFetch("/app/vote", {
 				method: "POST",
 				headers: { "Content-Type": "application/json" },
 				body: JSON.stringify({
@@ -435,9 +1428,196 @@ const rankingApp: RankingApp = {
 
 	// Actualizar puntos usados
 	updatePointsUsed() {
-		this.pointsUsed = Object.values(this.votePoints).reduce(
-			(sum, points) => sum + (points || 0),
-			0,
+		this.pointsUsed = this.getAllocationCost(this.votePoints);
+	},
+
+	// Activar o salir del planificador partiendo del reparto actual
+	togglePlanner() {
+		if (!this.isAuthenticated) {
+			this.login();
+			return;
+		}
+
+		this.plannerMode = !this.plannerMode;
+		this.plannedPoints = this.plannerMode ? { ...this.votePoints } : {};
+	},
+
+	getPlannedPoints(languageId: number): number {
+		return this.plannedPoints[languageId] || 0;
+	},
+
+	getPlannedTotal(): number {
+		return this.getAllocationCost(this.plannedPoints);
+	},
+
+	// Ajustar el reparto planificado respetando límite por lenguaje y presupuesto
+	adjustPlannedPoints(languageId: number, delta: number) {
+		const current = this.getPlannedPoints(languageId);
+		const next = Math.max(0, Math.min(this.getLanguageCap(), current + delta));
+		const plannedCost = this.getAllocationCost({
+			...this.plannedPoints,
+			[languageId]: next,
+		});
+		if (next > current && plannedCost > this.pointsBudget) return;
+
+		this.plannedPoints = { ...this.plannedPoints, [languageId]: next };
+	},
+
+	// Enviar el reparto completo en una sola petición
+	async submitBallot() {
+		if (!this.isAuthenticated || this.submittingBallot) return;
+
+		const allocations: Record<number, number> = {};
+		for (const [languageId, points] of Object.entries(this.plannedPoints)) {
+			if (points > 0) allocations[Number(languageId)] = points;
+		}
+
+		this.submittingBallot = true;
+
+		try {
+			const response = await authFetch("/app/ballot", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ allocations }),
+			});
+
+			if (!response.ok) {
+				const errorData: BallotErrorResponse = await response
+					.json()
+					.catch(() => ({}));
+				const languages = [
+					...this.featuredLanguages,
+					...this.additionalLanguages,
+				];
+				const details = Object.entries(errorData.errors || {}).map(
+					([languageId, message]) => {
+						const language = languages.find((l) => l.id === Number(languageId));
+						return `${language?.name || languageId}: ${message}`;
+					},
+				);
+				throw new Error(
+					[errorData.error || "Failed to submit ballot", ...details].join(". "),
+				);
+			}
+
+			const data: BallotResponse = await response.json();
+
+			this.votePoints = data.votePoints;
+			this.pointsUsed = data.totalPoints;
+			this.plannerMode = false;
+			this.plannedPoints = {};
+
+			this.showSuccessMessage(
+				`${data.message} ${data.remaining_points} points remaining.`,
+			);
+
+			if (!this.streamConnected) await this.updateLanguageRanking();
+		} catch (error) {
+			console.error("Error submitting ballot:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Error submitting ballot. Please try again.";
+			this.showErrorMessage(errorMessage);
+		} finally {
+			this.submittingBallot = false;
+		}
+	},
+
+	// Cargar las sugerencias pendientes de la comunidad
+	async loadSuggestions() {
+		try {
+			const response = await fetch("/app/languages/suggestions");
+			if (!response.ok) throw new Error("Failed to load suggestions");
+
+			const data: { suggestions: LanguageSuggestion[] } = await response.json();
+			this.suggestions = data.suggestions;
+		} catch (error) {
+			console.error("Error loading suggestions:", error);
+		}
+	},
+
+	toggleSuggestionForm() {
+		this.showSuggestionForm = !this.showSuggestionForm;
+	},
+
+	// Enviar la sugerencia de un lenguaje que falta
+	async submitSuggestion() {
+		if (!this.isAuthenticated || this.submittingSuggestion) return;
+
+		const name = this.suggestionForm.name.trim();
+		if (!name) {
+			this.showWarningMessage("Please enter the language name.");
+			return;
+		}
+
+		this.submittingSuggestion = true;
+
+		try {
+			const response = await authFetch("/app/languages/suggestions", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					name,
+					description: this.suggestionForm.description.trim() || null,
+					homepage: this.suggestionForm.homepage.trim() || null,
+				}),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to submit suggestion");
+			}
+
+			this.suggestionForm = { name: "", description: "", homepage: "" };
+			this.showSuggestionForm = false;
+			this.showSuccessMessage(
+				`Thanks! "${name}" is now pending review by the admins.`,
+			);
+			await this.loadSuggestions();
+		} catch (error) {
+			console.error("Error submitting suggestion:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Error submitting suggestion. Please try again.";
+			this.showErrorMessage(errorMessage);
+		} finally {
+			this.submittingSuggestion = false;
+		}
+	},
+
+	// Apoyar o retirar el apoyo a una sugerencia pendiente
+	async toggleSuggestionUpvote(suggestion: LanguageSuggestion) {
+		if (!this.canUpvoteSuggestion(suggestion)) return;
+
+		try {
+			const response = await authFetch(
+				`/app/languages/suggestions/${suggestion.id}/upvote`,
+				{ method: suggestion.has_upvoted ? "DELETE" : "POST" },
+			);
+
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to update upvote");
+			}
+
+			const data: { upvotes: number } = await response.json();
+			suggestion.has_upvoted = !suggestion.has_upvoted;
+			suggestion.upvotes = data.upvotes;
+			this.suggestions.sort((a, b) => b.upvotes - a.upvotes);
+		} catch (error) {
+			console.error("Error updating suggestion upvote:", error);
+			const errorMessage =
+				error instanceof Error ? error.message : "Failed to update upvote";
+			this.showErrorMessage(errorMessage);
+		}
+	},
+
+	// Solo usuarios autenticados, y no sobre sus propias sugerencias
+	canUpvoteSuggestion(suggestion: LanguageSuggestion): boolean {
+		return (
+			this.isAuthenticated && suggestion.suggested_by !== (this.user?.id ?? null)
 		);
 	},
 
@@ -445,10 +1625,7 @@ const rankingApp: RankingApp = {
 	async updateLanguageRanking() {
 		try {
 			console.log("🔄 Updating language ranking...");
-			const response = await fetch("/app/languages");
-			if (!response.ok) throw new Error("Failed to load languages");
-
-			const data: LanguagesResponse = await response.json();
+			const data = await this.fetchRankedLanguages();
 			console.log("📊 New data received:", {
 				top20: data.top20.length,
 				additional: data.additional.length,
@@ -606,7 +1783,13 @@ const rankingApp: RankingApp = {
 	// Verificar estado de autenticación
 	async checkAuth() {
 		try {
-			const response = await fetch("/app/auth/me");
+			// Si el access token ha caducado se renueva antes de dar la sesión por perdida
+			const response = await authFetch("/app/auth/me");
+			if (response.status === 401) {
+				this.isAuthenticated = false;
+				this.user = null;
+				return;
+			}
 			if (!response.ok) throw new Error("Failed to check auth");
 
 			const data: AuthResponse = await response.json();
@@ -624,7 +1807,7 @@ const rankingApp: RankingApp = {
 		if (!this.isAuthenticated) return;
 
 		try {
-			const response = await fetch("/app/user/votes");
+			const response = await authFetch("/app/user/votes");
 
 			if (!response.ok) {
 				throw new Error(`Failed to load user votes: ${response.status}`);
@@ -633,6 +1816,7 @@ const rankingApp: RankingApp = {
 			const data: UserVotesResponse = await response.json();
 			this.votePoints = data.votePoints;
 			this.pointsUsed = data.totalPoints;
+			this.pointsBudget = data.budget;
 		} catch (error) {
 			console.error("Error loading user votes:", error);
 			// No es crítico, continúa con votos vacíos
@@ -641,9 +1825,26 @@ const rankingApp: RankingApp = {
 		}
 	},
 
-	// Iniciar sesión con GitHub
-	login() {
-		window.location.href = "/app/auth/login";
+	// Cargar los proveedores de identidad habilitados en el servidor
+	async loadAuthProviders() {
+		try {
+			const response = await fetch("/app/auth/providers");
+			if (!response.ok) throw new Error("Failed to load auth providers");
+
+			const data: { providers: AuthProvider[] } = await response.json();
+			this.authProviders = data.providers;
+		} catch (error) {
+			// Se mantiene GitHub, que siempre está disponible
+			console.error("Error loading auth providers:", error);
+		}
+	},
+
+	// Iniciar sesión con un proveedor (por defecto el primero, GitHub)
+	login(providerId?: string) {
+		const provider = providerId ?? this.authProviders[0]?.id ?? "github";
+		// Volver a esta misma página al terminar el login
+		const returnTo = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+		window.location.href = `/app/auth/${encodeURIComponent(provider)}/login?returnTo=${encodeURIComponent(returnTo)}`;
 	},
 
 	// Cerrar sesión
@@ -654,11 +1855,7 @@ const rankingApp: RankingApp = {
 			});
 
 			if (response.ok) {
-				this.isAuthenticated = false;
-				this.user = null;
-				this.votePoints = {};
-				this.pointsUsed = 0;
-				this.selectedPoints = {};
+				this.clearAuthState();
 
 				// Mostrar confirmación de logout
 				this.showSuccessMessage("Logged out successfully");
@@ -670,6 +1867,243 @@ const rankingApp: RankingApp = {
 			console.error("Error logging out:", error);
 		}
 	},
+
+	// Olvidar el usuario y sus votos tras cerrar la sesión
+	clearAuthState() {
+		this.isAuthenticated = false;
+		this.user = null;
+		this.votePoints = {};
+		this.pointsUsed = 0;
+		this.pointsBudget = this.rules?.points_budget ?? 0;
+		this.selectedPoints = {};
+		this.showSettings = false;
+	},
+
+	// Abrir los ajustes de la cuenta con sus identidades enlazadas
+	async openSettings() {
+		if (!this.isAuthenticated) {
+			this.login();
+			return;
+		}
+
+		this.showSettings = true;
+		this.loadingSettings = true;
+		try {
+			await this.loadIdentities();
+			await this.loadSessions();
+			await this.loadPendingMerge();
+		} finally {
+			this.loadingSettings = false;
+		}
+	},
+
+	closeSettings() {
+		this.showSettings = false;
+	},
+
+	async loadIdentities() {
+		try {
+			const response = await authFetch("/app/account/identities");
+			if (!response.ok) throw new Error("Failed to load linked accounts");
+
+			const data: { identities: LinkedIdentity[]; providers: AuthProvider[] } =
+				await response.json();
+			this.identities = data.identities;
+			this.authProviders = data.providers;
+		} catch (error) {
+			console.error("Error loading linked accounts:", error);
+			this.showErrorMessage("Could not load your linked accounts.");
+		}
+	},
+
+	async loadSessions() {
+		try {
+			const response = await authFetch("/app/auth/sessions");
+			if (!response.ok) throw new Error("Failed to load sessions");
+
+			const data: { sessions: ActiveSession[] } = await response.json();
+			this.sessions = data.sessions;
+		} catch (error) {
+			console.error("Error loading sessions:", error);
+			this.showErrorMessage("Could not load your active sessions.");
+		}
+	},
+
+	// Cerrar una sesión concreta (si es la actual, equivale a salir)
+	async revokeSession(session: ActiveSession) {
+		try {
+			const response = await authFetch(`/app/auth/sessions/${session.id}`, {
+				method: "DELETE",
+			});
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to sign out session");
+			}
+
+			if (session.current) {
+				this.clearAuthState();
+				this.showSuccessMessage("Logged out successfully");
+				return;
+			}
+			this.sessions = this.sessions.filter((item) => item.id !== session.id);
+			this.showSuccessMessage("Session signed out.");
+		} catch (error) {
+			console.error("Error revoking session:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Error signing out session. Please try again.";
+			this.showErrorMessage(errorMessage);
+		}
+	},
+
+	async signOutEverywhere() {
+		try {
+			const response = await authFetch("/app/auth/sessions", { method: "DELETE" });
+			if (!response.ok) throw new Error("Failed to sign out everywhere");
+
+			this.sessions = [];
+			this.clearAuthState();
+			this.showSuccessMessage("Signed out on all devices.");
+		} catch (error) {
+			console.error("Error signing out everywhere:", error);
+			this.showErrorMessage("Error signing out everywhere. Please try again.");
+		}
+	},
+
+	// "Firefox on Linux" a partir del user agent (aproximado)
+	describeSession(session: ActiveSession) {
+		const userAgent = session.user_agent ?? "";
+		const browsers: [string, string][] = [
+			["Edg/", "Edge"],
+			["OPR/", "Opera"],
+			["Firefox/", "Firefox"],
+			["Chrome/", "Chrome"],
+			["Safari/", "Safari"],
+		];
+		const systems: [string, string][] = [
+			["Android", "Android"],
+			["iPhone", "iOS"],
+			["iPad", "iOS"],
+			["Windows", "Windows"],
+			["Mac OS X", "macOS"],
+			["Linux", "Linux"],
+		];
+		const browser =
+			browsers.find(([token]) => userAgent.includes(token))?.[1] ??
+			"Unknown browser";
+		const system = systems.find(([token]) => userAgent.includes(token))?.[1];
+		return system ? `${browser} on ${system}` : browser;
+	},
+
+	// La fusión pendiente vive en una cookie del servidor (404 si no hay)
+	async loadPendingMerge() {
+		try {
+			const response = await authFetch("/app/account/merge");
+			this.pendingMerge = response.ok ? await response.json() : null;
+		} catch (error) {
+			console.error("Error loading pending merge:", error);
+			this.pendingMerge = null;
+		}
+	},
+
+	// Enlazar otra cuenta: el proveedor vuelve a los ajustes al terminar
+	linkIdentity(providerId: string) {
+		const returnTo = `${window.location.pathname}${window.location.search}`;
+		window.location.href = `/app/auth/${encodeURIComponent(providerId)}/link?returnTo=${encodeURIComponent(returnTo)}`;
+	},
+
+	async unlinkIdentity(identity: LinkedIdentity) {
+		if (this.identities.length <= 1) {
+			this.showWarningMessage(
+				"You cannot unlink your last sign-in method. Link another account first.",
+			);
+			return;
+		}
+
+		try {
+			const response = await authFetch(`/app/account/identities/${identity.id}`, {
+				method: "DELETE",
+			});
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to unlink account");
+			}
+
+			this.identities = this.identities.filter(
+				(linked) => linked.id !== identity.id,
+			);
+			this.showSuccessMessage(
+				`${this.getProviderName(identity.provider)} account unlinked.`,
+			);
+		} catch (error) {
+			console.error("Error unlinking account:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Error unlinking account. Please try again.";
+			this.showErrorMessage(errorMessage);
+		}
+	},
+
+	// Fusionar la otra cuenta en la actual (identidades y votos del mes)
+	async confirmMerge() {
+		if (!this.pendingMerge || this.mergingAccounts) return;
+
+		this.mergingAccounts = true;
+		try {
+			const response = await authFetch("/app/account/merge", { method: "POST" });
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || "Failed to merge accounts");
+			}
+
+			const data: { identities: LinkedIdentity[] } = await response.json();
+			this.identities = data.identities;
+			this.pendingMerge = null;
+			await this.loadUserVotes();
+			this.showSuccessMessage("Accounts merged.");
+		} catch (error) {
+			console.error("Error merging accounts:", error);
+			const errorMessage =
+				error instanceof Error
+					? error.message
+					: "Error merging accounts. Please try again.";
+			this.showErrorMessage(errorMessage);
+		} finally {
+			this.mergingAccounts = false;
+		}
+	},
+
+	async cancelMerge() {
+		try {
+			await authFetch("/app/account/merge", { method: "DELETE" });
+		} catch (error) {
+			console.error("Error cancelling merge:", error);
+		}
+		this.pendingMerge = null;
+	},
+
+	getProviderName(providerId: string) {
+		return (
+			this.authProviders.find((provider) => provider.id === providerId)?.name ??
+			providerId
+		);
+	},
+
+	// "TypeScript 3, Rust 2" a partir de un reparto languageId → puntos
+	getAllocationSummary(allocation: Record<number, number>) {
+		const languages = [...this.featuredLanguages, ...this.additionalLanguages];
+		const entries = Object.entries(allocation).filter(([, points]) => points > 0);
+		if (entries.length === 0) return "No votes";
+
+		return entries
+			.map(([languageId, points]) => {
+				const language = languages.find((item) => item.id === Number(languageId));
+				return `${language?.name ?? `#${languageId}`} ${points}`;
+			})
+			.join(", ");
+	},
 };
 
 // Configurar reactividad para votePoints
@@ -706,9 +2140,81 @@ Alpine.data("rankingApp", () => ({
 	async logout() {
 		return rankingApp.logout.call(this);
 	},
+	async openSettings() {
+		return rankingApp.openSettings.call(this);
+	},
+	closeSettings() {
+		return rankingApp.closeSettings.call(this);
+	},
+	async unlinkIdentity(identity: LinkedIdentity) {
+		return rankingApp.unlinkIdentity.call(this, identity);
+	},
+	async revokeSession(session: ActiveSession) {
+		return rankingApp.revokeSession.call(this, session);
+	},
+	async signOutEverywhere() {
+		return rankingApp.signOutEverywhere.call(this);
+	},
+	async confirmMerge() {
+		return rankingApp.confirmMerge.call(this);
+	},
+	async cancelMerge() {
+		return rankingApp.cancelMerge.call(this);
+	},
 	async addPointsToLanguage(languageId: number, points: number) {
 		return rankingApp.addPointsToLanguage.call(this, languageId, points);
 	},
+	async removePointsFromLanguage(languageId: number) {
+		return rankingApp.removePointsFromLanguage.call(this, languageId);
+	},
+	togglePlanner() {
+		return rankingApp.togglePlanner.call(this);
+	},
+	adjustPlannedPoints(languageId: number, delta: number) {
+		return rankingApp.adjustPlannedPoints.call(this, languageId, delta);
+	},
+	async submitBallot() {
+		return rankingApp.submitBallot.call(this);
+	},
+	async selectMonth(month: string) {
+		return rankingApp.selectMonth.call(this, month);
+	},
+	async openLanguageDetail(languageId: number) {
+		return rankingApp.openLanguageDetail.call(this, languageId);
+	},
+	closeLanguageDetail() {
+		return rankingApp.closeLanguageDetail.call(this);
+	},
+	toggleRevisionForm() {
+		return rankingApp.toggleRevisionForm.call(this);
+	},
+	async submitRevision() {
+		return rankingApp.submitRevision.call(this);
+	},
+	connectRankingStream() {
+		return rankingApp.connectRankingStream.call(this);
+	},
+	async searchLanguages() {
+		return rankingApp.searchLanguages.call(this);
+	},
+	clearSearch() {
+		return rankingApp.clearSearch.call(this);
+	},
+	async applyRankingUpdate(event: RankingUpdateEvent) {
+		return rankingApp.applyRankingUpdate.call(this, event);
+	},
+	async loadSuggestions() {
+		return rankingApp.loadSuggestions.call(this);
+	},
+	toggleSuggestionForm() {
+		return rankingApp.toggleSuggestionForm.call(this);
+	},
+	async submitSuggestion() {
+		return rankingApp.submitSuggestion.call(this);
+	},
+	async toggleSuggestionUpvote(suggestion: LanguageSuggestion) {
+		return rankingApp.toggleSuggestionUpvote.call(this, suggestion);
+	},
 	// Otras funciones que no modifican estado pueden usar bind
 	getLanguagePoints: rankingApp.getLanguagePoints.bind(rankingApp),
 	canAddPoints: rankingApp.canAddPoints.bind(rankingApp),
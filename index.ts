@@ -3,24 +3,133 @@ import { cors } from "@elysiajs/cors";
 import { jwt } from "@elysiajs/jwt";
 import { staticPlugin } from "@elysiajs/static";
 import { swagger } from "@elysiajs/swagger";
-import { Elysia } from "elysia";
+import { type Cookie, Elysia, t } from "elysia";
 import { rateLimit } from "elysia-rate-limit";
 import { elysiaHelmet } from "elysiajs-helmet";
-import { GitHubAuth } from "./src/auth/github";
 import {
-	createSessionToken,
+	ACCOUNT_MERGE_COOKIE,
+	ACCOUNT_MERGE_MAX_AGE,
+	ACCOUNT_MERGE_PATH,
+	createOAuthState,
+	getCodeChallenge,
+	OAUTH_STATE_COOKIE,
+	OAUTH_STATE_ERROR,
+	OAUTH_STATE_MAX_AGE,
+	OAUTH_STATE_PATH,
+	type OAuthState,
+	openAccountMergeRequest,
+	openOAuthState,
+	sealAccountMergeRequest,
+	sealOAuthState,
+	withQueryParam,
+} from "./src/auth/oauthState";
+import type { IdentityProvider } from "./src/auth/provider";
+import {
+	createIdentityProviders,
+	listIdentityProviders,
+} from "./src/auth/providers";
+import {
+	ACCESS_TOKEN_MAX_AGE,
+	createSessionTokens,
 	jwtConfig,
+	REFRESH_TOKEN_COOKIE,
+	REFRESH_TOKEN_MAX_AGE,
+	REFRESH_TOKEN_PATH,
+	refreshSessionTokens,
+	revokeRefreshTokenSession,
+	type SessionClient,
+	type SessionTokens,
 	verifySessionToken,
 } from "./src/auth/session";
 import { initDatabase } from "./src/database/init";
 import {
+	aliasQueries,
 	dbUtils,
+	identityQueries,
+	type LanguageInput,
 	languageQueries,
+	redirectQueries,
+	revisionQueries,
+	sessionQueries,
+	snapshotQueries,
+	type SuggestionStatus,
+	suggestionQueries,
 	userQueries,
 	voteQueries,
 } from "./src/database/queries";
 import { getDbStats } from "./src/database/schema";
-import { validateAddVote } from "./src/services/voteService";
+import { requireAdmin } from "./src/middleware/admin";
+import {
+	mergeAccounts,
+	previewAccountMerge,
+} from "./src/services/accountMergeService";
+import {
+	linkIdentity,
+	signInWithIdentity,
+	unlinkIdentity,
+} from "./src/services/identityService";
+import {
+	addLanguageAlias,
+	createLanguage,
+	isLabel,
+	mergeLanguages,
+	removeLanguageAlias,
+	setLanguageArchived,
+	updateLanguage,
+} from "./src/services/languageAdminService";
+import {
+	decodeLanguageCursor,
+	getLanguageHistory,
+	type LanguageCursor,
+	type LanguageSort,
+	pageLanguages,
+	type RankedLanguage,
+} from "./src/services/languageService";
+import {
+	getVotingPeriod,
+	syncVotingPeriods,
+} from "./src/services/periodService";
+import {
+	type CachedPayload,
+	createEtag,
+	getCachedRanking,
+	isNotModified,
+	refreshRankingData,
+} from "./src/services/rankingCache";
+import {
+	getRollingRanking,
+	parseRankingOptions,
+	resolveRankingAlgorithm,
+} from "./src/services/rankingService";
+import {
+	createRankingEventStream,
+	startRankingNotifications,
+} from "./src/services/rankingStream";
+import { getPointsBudget, getVotingRules } from "./src/services/rulesService";
+import {
+	applyRevision,
+	proposeRevision,
+	type RevisionInput,
+	rejectRevision,
+	rollbackToRevision,
+} from "./src/services/revisionService";
+import { getRankingArchive } from "./src/services/snapshotService";
+import {
+	approveSuggestion,
+	rejectSuggestion,
+	type SuggestionApproval,
+	type SuggestionInput,
+	setSuggestionUpvote,
+	submitSuggestion,
+} from "./src/services/suggestionService";
+import {
+	type BallotAllocation,
+	getUserVotingStatus,
+	moveVotePoints,
+	recordVote,
+	retractVote,
+	submitBallot,
+} from "./src/services/voteService";
 // import { createDatabaseBackup } from "./src/utils/backup"; // Disabled for PostgreSQL server
 
 const isDevelopment = process.env.NODE_ENV !== "production";
@@ -30,25 +139,197 @@ interface ElysiaContext {
 	body: { languageId: number; points: number };
 	user: {
 		userId: number;
-		githubId: number;
+		provider: string;
 		username: string;
 		avatarUrl?: string;
+		sessionId: number;
 	} | null;
 	set: {
 		status: number;
 	};
 }
 
-// Inicializar base de datos al arrancar
-initDatabase();
+// Respuesta con cabeceras de caché (ETag / Last-Modified)
+interface CacheableSet {
+	status: number;
+	headers: Record<string, string | number>;
+}
+
+// Tamaño de página por defecto y máximo de GET /app/languages
+const LANGUAGE_PAGE_SIZE = 50;
+const MAX_LANGUAGE_PAGE_SIZE = 100;
 
-// Configurar GitHub OAuth
-const githubAuth = new GitHubAuth({
-	clientId: process.env.GITHUB_CLIENT_ID || "your-github-client-id",
-	clientSecret: process.env.GITHUB_CLIENT_SECRET || "your-github-client-secret",
-	redirectUri: `${process.env.BASE_URL || "http://localhost:3000"}/app/auth/callback`,
+// Campos editables de un lenguaje en el catálogo (admin)
+const languageInputSchema = t.Object({
+	name: t.String({ minLength: 1, maxLength: 50 }),
+	description: t.Optional(t.Union([t.String(), t.Null()])),
+	color: t.Optional(t.String()),
+	logo_url: t.Optional(t.Union([t.String(), t.Null()])),
+	homepage: t.Optional(t.Union([t.String(), t.Null()])),
+	is_featured: t.Optional(t.Boolean()),
+	tags: t.Optional(t.Array(t.String())),
+	paradigms: t.Optional(t.Array(t.String())),
+	typing: t.Optional(
+		t.Union([
+			t.Literal("static"),
+			t.Literal("dynamic"),
+			t.Literal("gradual"),
+			t.Null(),
+		]),
+	),
+	first_release_year: t.Optional(t.Union([t.Integer(), t.Null()])),
+	family: t.Optional(t.Union([t.String(), t.Null()])),
+	parent_id: t.Optional(t.Union([t.Integer({ minimum: 1 }), t.Null()])),
 });
 
+// Cada cuánto se abren y cierran los periodos de votación
+const PERIOD_SYNC_INTERVAL_MS = 60 * 1000;
+
+// Cada cuánto se refresca la vista del ranking aunque no lleguen votos
+// (recoge cambios en lenguajes y usuarios)
+const RANKING_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Inicializar base de datos al arrancar, escuchar cambios del ranking
+// y mantener los periodos y la vista del ranking al día
+initDatabase().then(async () => {
+	await startRankingNotifications();
+	await refreshRankingData();
+	await syncVotingPeriods();
+	setInterval(() => {
+		syncVotingPeriods().catch((error) =>
+			console.error("Error syncing voting periods:", error),
+		);
+	}, PERIOD_SYNC_INTERVAL_MS);
+	setInterval(() => {
+		refreshRankingData().catch((error) =>
+			console.error("Error refreshing ranking data:", error),
+		);
+	}, RANKING_REFRESH_INTERVAL_MS);
+});
+
+// Envía una respuesta cacheada del ranking, o 304 si el cliente ya la tiene
+function sendCachedRanking<T>(
+	request: Request,
+	set: CacheableSet,
+	payload: CachedPayload<T>,
+): T | null {
+	set.headers.etag = payload.etag;
+	set.headers["last-modified"] = payload.lastModified.toUTCString();
+	// El cliente debe revalidar siempre: los votos invalidan la caché
+	set.headers["cache-control"] = "no-cache";
+
+	if (isNotModified(request.headers, payload)) {
+		set.status = 304;
+		return null;
+	}
+	return payload.body;
+}
+
+// Proveedores de identidad (GitHub, GitLab, Google, OIDC genérico)
+const identityProviders = createIdentityProviders(
+	process.env.BASE_URL || "http://localhost:3000",
+);
+
+// Guarda el state del login en su cookie y redirige al proveedor
+async function redirectToProvider(
+	provider: IdentityProvider,
+	oauthState: OAuthState,
+	cookie: Record<string, Cookie<string | undefined>>,
+): Promise<Response> {
+	// El state y el verificador PKCE viajan firmados en una cookie de corta duración
+	const stateCookie = cookie[OAUTH_STATE_COOKIE];
+	if (stateCookie) {
+		stateCookie.value = sealOAuthState(oauthState);
+		stateCookie.httpOnly = true;
+		stateCookie.secure = process.env.NODE_ENV === "production";
+		stateCookie.sameSite = "lax";
+		stateCookie.maxAge = OAUTH_STATE_MAX_AGE;
+		stateCookie.path = OAUTH_STATE_PATH;
+	}
+
+	try {
+		const authUrl = await provider.getAuthUrl({
+			state: oauthState.state,
+			codeChallenge: getCodeChallenge(oauthState.codeVerifier),
+			nonce: oauthState.nonce,
+		});
+		return Response.redirect(authUrl, 302);
+	} catch (error) {
+		// Discovery OIDC no disponible
+		console.error("Auth login error:", error);
+		return Response.redirect("/?error=auth_failed", 302);
+	}
+}
+
+// Solo detrás de un proxy de confianza (TRUST_PROXY=true) se lee la IP de
+// X-Forwarded-For: sin proxy cualquier cliente podría falsearla
+const trustProxy = process.env.TRUST_PROXY === "true";
+
+// Navegador y dirección IP de la petición, para la lista de sesiones
+// y la detección de tokens de refresco reutilizados
+function getSessionClient(
+	request: Request,
+	server: { requestIP(request: Request): { address: string } | null } | null,
+): SessionClient {
+	// Detrás del proxy la IP del socket es la del proxy. Se usa la última
+	// entrada de X-Forwarded-For, la que añade el propio proxy: las anteriores
+	// las puede enviar el cliente
+	const forwardedFor = trustProxy
+		? request.headers.get("x-forwarded-for")?.split(",").at(-1)
+		: undefined;
+	return {
+		userAgent: request.headers.get("user-agent")?.slice(0, 512) || null,
+		ipAddress:
+			forwardedFor?.trim() || server?.requestIP(request)?.address || null,
+	};
+}
+
+// Guarda el access token y el token de refresco en sus cookies
+function setAuthCookies(
+	cookie: Record<string, Cookie<string | undefined>>,
+	tokens: SessionTokens,
+) {
+	const authCookie = cookie.auth_token;
+	if (authCookie) {
+		authCookie.value = tokens.accessToken;
+		authCookie.httpOnly = true;
+		authCookie.secure = process.env.NODE_ENV === "production";
+		authCookie.sameSite = "lax";
+		authCookie.maxAge = ACCESS_TOKEN_MAX_AGE;
+		authCookie.path = "/";
+	}
+
+	const refreshCookie = cookie[REFRESH_TOKEN_COOKIE];
+	if (refreshCookie) {
+		refreshCookie.value = tokens.refreshToken;
+		refreshCookie.httpOnly = true;
+		refreshCookie.secure = process.env.NODE_ENV === "production";
+		refreshCookie.sameSite = "lax";
+		refreshCookie.maxAge = REFRESH_TOKEN_MAX_AGE;
+		refreshCookie.path = REFRESH_TOKEN_PATH;
+	}
+}
+
+// Expira una cookie en la ruta con la que se creó: remove() la borra
+// con Path=/ y el navegador conservaría la original
+function expireCookie(
+	cookie: Cookie<string | undefined> | undefined,
+	path: string,
+) {
+	if (!cookie) return;
+	cookie.value = "";
+	cookie.path = path;
+	cookie.maxAge = 0;
+}
+
+// Borra las cookies de sesión del navegador
+function clearAuthCookies(cookie: Record<string, Cookie<string | undefined>>) {
+	setAuthCookies(cookie, { accessToken: "", refreshToken: "" });
+	// Expiran inmediatamente
+	if (cookie.auth_token) cookie.auth_token.maxAge = 0;
+	if (cookie[REFRESH_TOKEN_COOKIE]) cookie[REFRESH_TOKEN_COOKIE].maxAge = 0;
+}
+
 const app = new Elysia()
 	.use(
 		elysiaHelmet({
@@ -65,6 +346,9 @@ const app = new Elysia()
 							"'self'",
 							"data:",
 							"https://avatars.githubusercontent.com",
+							"https://gitlab.com",
+							"https://secure.gravatar.com",
+							"https://lh3.googleusercontent.com",
 						],
 						connectSrc: ["'self'"],
 						fontSrc: ["'self'", "https://fonts.gstatic.com"],
@@ -83,6 +367,9 @@ const app = new Elysia()
 							"'self'",
 							"data:",
 							"https://avatars.githubusercontent.com",
+							"https://gitlab.com",
+							"https://secure.gravatar.com",
+							"https://lh3.googleusercontent.com",
 						],
 						connectSrc: ["'self'"],
 						fontSrc: ["'self'", "https://fonts.gstatic.com"],
@@ -111,14 +398,18 @@ const app = new Elysia()
 	)
 	.use(swagger())
 	// Middleware de autenticación
-	.derive(async ({ cookie, jwt }) => {
+	.derive(async ({ cookie, jwt, request, server }) => {
 		const token = cookie?.auth_token?.value;
 		let user = null;
 
 		// Debug logs removidos para limpiar consola
 
 		if (token && typeof token === "string") {
-			user = await verifySessionToken(token, jwt);
+			user = await verifySessionToken(
+				token,
+				jwt,
+				getSessionClient(request, server),
+			);
 		}
 
 		return { user };
@@ -132,183 +423,1102 @@ const app = new Elysia()
 	.get("/", () => Bun.file("frontend/public/index.html"))
 	.group("/app", (app) =>
 		app
-			.get("/health", async () => ({
-				status: "ok",
-				timestamp: new Date().toISOString(),
-				database: await getDbStats(),
+			.get("/health", async () => {
+				const month = dbUtils.getCurrentMonth();
+				const { body } = await getCachedRanking(
+					`health:${month}`,
+					async () => ({
+						database: await getDbStats(),
+						stats: await voteQueries.getCurrentMonthStats(),
+					}),
+				);
+
+				return {
+					status: "ok",
+					timestamp: new Date().toISOString(),
+					database: body.database,
+					current_month: month,
+					stats: body.stats,
+				};
+			})
+
+			// Endpoints para ranking dinámico
+			.get(
+				"/languages",
+				async ({
+					query,
+					request,
+					set,
+				}: {
+					query: {
+						cursor?: string;
+						limit?: number;
+						sort?: LanguageSort;
+						featured?: boolean;
+						tag?: string;
+						min_voters?: number;
+						algorithm?: string;
+					};
+					request: Request;
+					set: CacheableSet;
+				}) => {
+					const resolved = resolveRankingAlgorithm(query.algorithm);
+					if (!resolved.isValid || !resolved.algorithm) {
+						set.status = 400;
+						return { error: resolved.error };
+					}
+
+					const sort = query.sort ?? "total";
+					let cursor: LanguageCursor | null = null;
+					if (query.cursor) {
+						cursor = decodeLanguageCursor(query.cursor, sort);
+						if (!cursor) {
+							set.status = 400;
+							return { error: "Invalid cursor for this sort order" };
+						}
+					}
+
+					// Se cachea el ranking completo; filtros y páginas se aplican en memoria
+					const algorithm = resolved.algorithm;
+					const ranking = await getCachedRanking(
+						`languages:${dbUtils.getCurrentMonth()}:${algorithm}`,
+						async () =>
+							(await dbUtils.getCompleteRanking(
+								algorithm,
+							)) as unknown as RankedLanguage[],
+					);
+
+					const body = {
+						...pageLanguages(ranking.body, {
+							sort,
+							limit: query.limit ?? LANGUAGE_PAGE_SIZE,
+							cursor,
+							featured: query.featured,
+							tag: query.tag,
+							minVoters: query.min_voters,
+						}),
+						sort,
+						algorithm,
+					};
+					return sendCachedRanking(request, set, {
+						body,
+						etag: createEtag(body),
+						lastModified: ranking.lastModified,
+					});
+				},
+				{
+					query: t.Object({
+						cursor: t.Optional(t.String({ maxLength: 512 })),
+						limit: t.Optional(
+							t.Numeric({ minimum: 1, maximum: MAX_LANGUAGE_PAGE_SIZE }),
+						),
+						sort: t.Optional(
+							t.Union([
+								t.Literal("total"),
+								t.Literal("month"),
+								t.Literal("name"),
+								t.Literal("voters"),
+							]),
+						),
+						featured: t.Optional(t.BooleanString()),
+						tag: t.Optional(t.String({ minLength: 1, maxLength: 50 })),
+						min_voters: t.Optional(t.Numeric({ minimum: 0 })),
+						algorithm: t.Optional(t.String()),
+					}),
+				},
+			)
+
+			.get("/languages/all", async () => await languageQueries.getAllLanguagesRanked())
+
+			.get(
+				"/languages/top/:limit",
+				({ params }: { params: { limit: number } }) =>
+					languageQueries.getTopLanguages(params.limit),
+				{
+					params: t.Object({
+						limit: t.Numeric({ minimum: 1, maximum: MAX_LANGUAGE_PAGE_SIZE }),
+					}),
+				},
+			)
+
+			// Búsqueda aproximada por nombre o alias ("ts" → TypeScript)
+			.get(
+				"/languages/search",
+				async ({ query }: { query: { q: string; limit?: number } }) => {
+					const q = query.q.trim();
+					return {
+						query: q,
+						results: q
+							? await languageQueries.searchLanguages(q, query.limit ?? 10)
+							: [],
+					};
+				},
+				{
+					query: t.Object({
+						q: t.String({ minLength: 1, maxLength: 50 }),
+						limit: t.Optional(t.Numeric({ minimum: 1, maximum: 50 })),
+					}),
+				},
+			)
+
+			// Sugerencias pendientes de la comunidad, las más apoyadas primero
+			.get(
+				"/languages/suggestions",
+				async ({ user }: Pick<ElysiaContext, "user">) => ({
+					suggestions: await suggestionQueries.getSuggestions(
+						"pending",
+						user?.userId ?? null,
+					),
+				}),
+			)
+
+			.post(
+				"/languages/suggestions",
+				async ({
+					body,
+					user,
+					set,
+				}: {
+					body: SuggestionInput;
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const submitted = await submitSuggestion(user.userId, body);
+					if (!submitted.isValid) {
+						set.status = submitted.conflict ? 409 : 400;
+						return { error: submitted.error };
+					}
+					set.status = 201;
+					return { success: true, suggestion: submitted.result };
+				},
+				{
+					body: t.Object({
+						name: t.String({ minLength: 1, maxLength: 50 }),
+						description: t.Optional(
+							t.Union([t.String({ maxLength: 500 }), t.Null()]),
+						),
+						homepage: t.Optional(
+							t.Union([t.String({ maxLength: 255 }), t.Null()]),
+						),
+					}),
+				},
+			)
+
+			// Apoyar (POST) o retirar el apoyo (DELETE) a una sugerencia pendiente
+			.post(
+				"/languages/suggestions/:id/upvote",
+				async ({
+					params,
+					user,
+					set,
+				}: {
+					params: { id: number };
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const upvoted = await setSuggestionUpvote(
+						user.userId,
+						params.id,
+						true,
+					);
+					if (!upvoted.isValid) {
+						set.status = upvoted.notFound ? 404 : 400;
+						return { error: upvoted.error };
+					}
+					return { success: true, upvotes: upvoted.result };
+				},
+				{ params: t.Object({ id: t.Numeric() }) },
+			)
+
+			.delete(
+				"/languages/suggestions/:id/upvote",
+				async ({
+					params,
+					user,
+					set,
+				}: {
+					params: { id: number };
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const removed = await setSuggestionUpvote(
+						user.userId,
+						params.id,
+						false,
+					);
+					if (!removed.isValid) {
+						set.status = removed.notFound ? 404 : 400;
+						return { error: removed.error };
+					}
+					return { success: true, upvotes: removed.result };
+				},
+				{ params: t.Object({ id: t.Numeric() }) },
+			)
+
+			.get(
+				"/languages/:id",
+				async ({
+					params,
+					set,
+				}: {
+					params: { id: string };
+					set: ElysiaContext["set"];
+				}) => {
+					const id = parseInt(params.id) || 0;
+					const language = await languageQueries.getLanguageById(id);
+					if (!language) {
+						// Los lenguajes fusionados redirigen al lenguaje que los absorbió
+						const redirectId = await redirectQueries.getRedirect(id);
+						if (redirectId !== null) {
+							return Response.redirect(`/app/languages/${redirectId}`, 301);
+						}
+						set.status = 404;
+						return { error: "Language not found" };
+					}
+					return language;
+				},
+			)
+
+			// Historial mensual de un lenguaje (puntos, votantes y posición)
+			.get(
+				"/languages/:id/history",
+				async ({
+					params,
+					set,
+				}: {
+					params: { id: string };
+					set: ElysiaContext["set"];
+				}) => {
+					const id = parseInt(params.id) || 0;
+					const language = await languageQueries.getLanguageById(id);
+					if (!language) {
+						const redirectId = await redirectQueries.getRedirect(id);
+						if (redirectId !== null) {
+							return Response.redirect(
+								`/app/languages/${redirectId}/history`,
+								301,
+							);
+						}
+						set.status = 404;
+						return { error: "Language not found" };
+					}
+
+					return {
+						language,
+						history: await getLanguageHistory(language.id),
+					};
+				},
+			)
+
+			// Historial de revisiones de descripción y color de un lenguaje
+			.get(
+				"/languages/:id/revisions",
+				async ({
+					params,
+					set,
+				}: {
+					params: { id: number };
+					set: ElysiaContext["set"];
+				}) => {
+					const language = await languageQueries.getLanguageById(params.id);
+					if (!language) {
+						// El historial de un lenguaje fusionado está en el destino
+						const redirectId = await redirectQueries.getRedirect(params.id);
+						if (redirectId !== null) {
+							return Response.redirect(
+								`/app/languages/${redirectId}/revisions`,
+								301,
+							);
+						}
+						set.status = 404;
+						return { error: "Language not found" };
+					}
+
+					return {
+						revisions: await revisionQueries.getLanguageRevisions(language.id),
+					};
+				},
+				{ params: t.Object({ id: t.Numeric() }) },
+			)
+
+			// Proponer una edición; se aplica cuando la aprueba un moderador
+			.post(
+				"/languages/:id/revisions",
+				async ({
+					params,
+					body,
+					user,
+					set,
+				}: {
+					params: { id: number };
+					body: RevisionInput;
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const proposed = await proposeRevision(user.userId, params.id, body);
+					if (!proposed.isValid) {
+						set.status = proposed.notFound ? 404 : 400;
+						return { error: proposed.error };
+					}
+					set.status = 201;
+					return { success: true, revision: proposed.result };
+				},
+				{
+					params: t.Object({ id: t.Numeric() }),
+					body: t.Object({
+						description: t.Optional(t.String({ maxLength: 500 })),
+						color: t.Optional(t.String()),
+						comment: t.Optional(
+							t.Union([t.String({ maxLength: 200 }), t.Null()]),
+						),
+					}),
+				},
+			)
+
+			// Reglas de votación del mes actual
+			.get("/rules", async () => {
+				const month = dbUtils.getCurrentMonth();
+				return {
+					month,
+					rules: await getVotingRules(month),
+					period: await getVotingPeriod(month),
+				};
+			})
+
+			// Endpoint para obtener ranking actual
+			// Con ?window= o ?decay= se ordena por ventana móvil o puntuación con decaimiento
+			.get(
+				"/ranking",
+				async ({
+					query,
+					request,
+					set,
+				}: {
+					query: {
+						window?: string;
+						decay?: string;
+						algorithm?: string;
+						limit?: string;
+						tag?: string;
+					};
+					request: Request;
+					set: CacheableSet;
+				}) => {
+					const month = dbUtils.getCurrentMonth();
+					const limit = Math.min(
+						Math.max(parseInt(query.limit || "20") || 20, 1),
+						200,
+					);
+					// Con tag, las posiciones son las del ranking de esa etiqueta
+					const tag = query.tag?.trim().toLowerCase() || null;
+					if (tag !== null && !isLabel(tag)) {
+						set.status = 400;
+						return { error: "tag must be a lowercase label like systems" };
+					}
+
+					if (query.window === undefined && query.decay === undefined) {
+						const resolved = resolveRankingAlgorithm(query.algorithm);
+						if (!resolved.isValid || !resolved.algorithm) {
+							set.status = 400;
+							return { error: resolved.error };
+						}
+
+						const algorithm = resolved.algorithm;
+						const payload = await getCachedRanking(
+							`ranking:${month}:${algorithm}:${limit}:${tag ?? ""}`,
+							async () => ({
+								month,
+								strategy: (await getVotingRules(month)).scoring_strategy,
+								algorithm,
+								tag,
+								ranking: await dbUtils.getTopRankingWithStats(
+									limit,
+									algorithm,
+									tag,
+								),
+								stats: await voteQueries.getCurrentMonthStats(),
+							}),
+						);
+						return sendCachedRanking(request, set, payload);
+					}
+
+					const parsed = parseRankingOptions(query);
+					if (!parsed.isValid || !parsed.options) {
+						set.status = 400;
+						return { error: parsed.error };
+					}
+
+					const options = parsed.options;
+					const payload = await getCachedRanking(
+						`ranking:${month}:${options.algorithm}:${limit}:${options.window}:${options.halfLifeMonths ?? ""}:${tag ?? ""}`,
+						async () => ({
+							month,
+							strategy: (await getVotingRules(month)).scoring_strategy,
+							algorithm: options.algorithm,
+							window: options.window,
+							decay: options.halfLifeMonths,
+							tag,
+							ranking: await getRollingRanking(options, limit, tag),
+							stats: await voteQueries.getCurrentMonthStats(),
+						}),
+					);
+					return sendCachedRanking(request, set, payload);
+				},
+			)
+
+			// Ranking agregado por familia de lenguajes (JVM, BEAM, .NET...)
+			.get(
+				"/ranking/families",
+				async ({
+					query,
+					request,
+					set,
+				}: {
+					query: { algorithm?: string };
+					request: Request;
+					set: CacheableSet;
+				}) => {
+					const resolved = resolveRankingAlgorithm(query.algorithm);
+					if (!resolved.isValid || !resolved.algorithm) {
+						set.status = 400;
+						return { error: resolved.error };
+					}
+
+					const month = dbUtils.getCurrentMonth();
+					const algorithm = resolved.algorithm;
+					const payload = await getCachedRanking(
+						`families:${month}:${algorithm}`,
+						async () => ({
+							month,
+							algorithm,
+							families: await dbUtils.getFamilyRanking(algorithm),
+						}),
+					);
+					return sendCachedRanking(request, set, payload);
+				},
+			)
+
+			// Meses con actividad para el selector de meses
+			.get("/months", async () => ({
 				current_month: dbUtils.getCurrentMonth(),
-				stats: await voteQueries.getCurrentMonthStats(),
+				months: await getRankingArchive(),
 			}))
 
-			// Endpoints para ranking dinámico
-			.get("/languages", async () => {
-				const completeRanking = await dbUtils.getCompleteRanking();
+			// Actualizaciones del ranking en tiempo real (Server-Sent Events)
+			.get(
+				"/ranking/stream",
+				({ request }: { request: Request }) =>
+					new Response(createRankingEventStream(request.signal), {
+						headers: {
+							"Content-Type": "text/event-stream",
+							"Cache-Control": "no-cache",
+							Connection: "keep-alive",
+						},
+					}),
+			)
+
+			// Índice del archivo de rankings mensuales
+			.get("/ranking/archive", async () => ({
+				months: await getRankingArchive(),
+			}))
+
+			// Ranking final de un mes cerrado, servido desde su snapshot
+			.get(
+				"/ranking/:month",
+				async ({
+					params,
+					set,
+				}: {
+					params: { month: string };
+					set: ElysiaContext["set"];
+				}) => {
+					const { month } = params;
+					if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+						set.status = 400;
+						return { error: "Month must use the YYYY-MM format" };
+					}
+
+					const snapshot = await snapshotQueries.getSnapshot(month);
+					if (snapshot.length === 0) {
+						set.status = 404;
+						return { error: `The ranking for ${month} is not finalized yet` };
+					}
+
+					return {
+						month,
+						strategy: snapshot[0]?.scoring_strategy,
+						algorithm: snapshot[0]?.ranking_algorithm,
+						ranking: snapshot,
+					};
+				},
+			)
+
+			// Endpoints de prueba para usuarios (mock)
+			.post(
+				"/test/create-user",
+				({
+					body,
+				}: {
+					body: { githubId: number; username: string; avatarUrl?: string };
+				}) => {
+					const { githubId, username, avatarUrl } = body;
+					if (!githubId || !username) {
+						throw new Error("githubId and username are required");
+					}
+
+					const user = signInWithIdentity({
+						provider: "github",
+						subject: String(githubId),
+						username,
+						avatarUrl: avatarUrl ?? null,
+						email: null,
+					});
+					return { success: true, user };
+				},
+			)
+
+			.get(
+				"/test/user/:githubId",
+				({ params }: { params: { githubId: string } }) => {
+					const user = userQueries.getUserByIdentity("github", params.githubId);
+					if (!user) {
+						throw new Error("User not found");
+					}
+					return user;
+				},
+			)
+
+			// Endpoints de autenticación
+			.get("/auth/providers", () => ({
+				providers: listIdentityProviders(identityProviders),
+			}))
+
+			.get(
+				"/auth/:provider/login",
+				async ({
+					params,
+					query,
+					cookie,
+					set,
+				}: {
+					params: { provider: string };
+					query: { returnTo?: string };
+					cookie: Record<string, Cookie<string | undefined>>;
+					set: { status: number };
+				}) => {
+					const provider = identityProviders.get(params.provider);
+					if (!provider) {
+						set.status = 404;
+						return { error: "Unknown identity provider" };
+					}
+
+					return await redirectToProvider(
+						provider,
+						createOAuthState(provider.id, query.returnTo),
+						cookie,
+					);
+				},
+				{
+					query: t.Object({ returnTo: t.Optional(t.String()) }),
+				},
+			)
+
+			// Enlazar otra identidad a la cuenta con sesión (desde los ajustes)
+			.get(
+				"/auth/:provider/link",
+				async ({
+					params,
+					query,
+					cookie,
+					user,
+					set,
+				}: {
+					params: { provider: string };
+					query: { returnTo?: string };
+					cookie: Record<string, Cookie<string | undefined>>;
+					user: ElysiaContext["user"];
+					set: { status: number };
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+					const provider = identityProviders.get(params.provider);
+					if (!provider) {
+						set.status = 404;
+						return { error: "Unknown identity provider" };
+					}
+
+					return await redirectToProvider(
+						provider,
+						createOAuthState(provider.id, query.returnTo, user.userId),
+						cookie,
+					);
+				},
+				{
+					query: t.Object({ returnTo: t.Optional(t.String()) }),
+				},
+			)
+
+			.get(
+				"/auth/:provider/callback",
+				async ({
+					params,
+					query,
+					cookie,
+					jwt,
+					user: sessionUser,
+					request,
+					server,
+				}: {
+					params: { provider: string };
+					query: Record<string, string | undefined>;
+					cookie: Record<string, Cookie<string | undefined>>;
+					jwt: Parameters<typeof refreshSessionTokens>[1];
+					user: ElysiaContext["user"];
+					request: Request;
+					server: Parameters<typeof getSessionClient>[1];
+				}) => {
+					// El state solo sirve una vez: se borra la cookie sea cual sea el resultado
+					const oauthState = openOAuthState(
+						cookie[OAUTH_STATE_COOKIE]?.value,
+						query.state,
+						params.provider,
+					);
+					expireCookie(cookie[OAUTH_STATE_COOKIE], OAUTH_STATE_PATH);
+					const provider = identityProviders.get(params.provider);
+					if (!oauthState || !provider) {
+						return Response.redirect(`/?error=${OAUTH_STATE_ERROR}`, 302);
+					}
+
+					try {
+						const { code } = query as { code?: string };
+
+						if (!code) {
+							throw new Error("No authorization code received");
+						}
+
+						// Autenticar usuario con el proveedor
+						const profile = await provider.authenticateUser(
+							code,
+							oauthState.codeVerifier,
+							oauthState.nonce,
+						);
+
+						if (oauthState.linkUserId !== null) {
+							// El enlace solo vale para la sesión que lo inició
+							if (sessionUser?.userId !== oauthState.linkUserId) {
+								throw new Error("Session changed while linking an identity");
+							}
+
+							const linked = await linkIdentity(sessionUser.userId, profile);
+							if (linked.status === "other_account") {
+								// Quien controla ambas cuentas puede confirmar la fusión en los ajustes
+								const mergeCookie = cookie[ACCOUNT_MERGE_COOKIE];
+								if (mergeCookie) {
+									mergeCookie.value = sealAccountMergeRequest(
+										linked.ownerId,
+										sessionUser.userId,
+									);
+									mergeCookie.httpOnly = true;
+									mergeCookie.secure = process.env.NODE_ENV === "production";
+									mergeCookie.sameSite = "lax";
+									mergeCookie.maxAge = ACCOUNT_MERGE_MAX_AGE;
+									mergeCookie.path = ACCOUNT_MERGE_PATH;
+								}
+								return Response.redirect(
+									withQueryParam(oauthState.returnTo, "merge", "pending"),
+									302,
+								);
+							}
+							return Response.redirect(
+								withQueryParam(oauthState.returnTo, "linked", provider.id),
+								302,
+							);
+						}
+
+						// Crear o actualizar usuario en nuestra base de datos
+						const user = await signInWithIdentity(profile);
+
+						// Crear la sesión: access token corto y token de refresco rotatorio
+						const tokens = await createSessionTokens(
+							user,
+							provider.id,
+							jwt,
+							getSessionClient(request, server),
+						);
+
+						// Establecer cookies de autenticación
+						setAuthCookies(cookie, tokens);
+
+						// Volver a la página desde la que se inició el login
+						return Response.redirect(oauthState.returnTo, 302);
+					} catch (error) {
+						console.error("Auth callback error:", error);
+						return Response.redirect("/?error=auth_failed", 302);
+					}
+				},
+			)
+
+			// Renovar el access token rotando el token de refresco
+			.post(
+				"/auth/refresh",
+				async ({
+					cookie,
+					jwt,
+					set,
+					request,
+					server,
+				}: {
+					cookie: Record<string, Cookie<string | undefined>>;
+					jwt: Parameters<typeof refreshSessionTokens>[1];
+					set: ElysiaContext["set"];
+					request: Request;
+					server: Parameters<typeof getSessionClient>[1];
+				}) => {
+					const refreshToken = cookie[REFRESH_TOKEN_COOKIE]?.value;
+					if (!refreshToken) {
+						set.status = 401;
+						return { error: "Session expired" };
+					}
+
+					const refreshed = await refreshSessionTokens(
+						refreshToken,
+						jwt,
+						getSessionClient(request, server),
+					);
+					if (refreshed.status === "refreshed") {
+						setAuthCookies(cookie, refreshed.tokens);
+						return { success: true };
+					}
+					if (refreshed.status === "raced") {
+						// Las cookies nuevas las ha recibido la otra petición: no se tocan
+						set.status = 409;
+						return { error: "Session was refreshed by another request" };
+					}
+
+					if (refreshed.status === "reused") {
+						console.warn("Refresh token reused, session revoked");
+					}
+					clearAuthCookies(cookie);
+					set.status = 401;
+					return { error: "Session expired" };
+				},
+			)
+
+			.post(
+				"/auth/logout",
+				async ({
+					cookie,
+					user,
+				}: {
+					cookie: Record<string, Cookie<string | undefined>>;
+					user: ElysiaContext["user"];
+				}) => {
+					// Revocar la sesión en el servidor: el token deja de valer aunque se haya copiado
+					const refreshToken = cookie[REFRESH_TOKEN_COOKIE]?.value;
+					if (user) {
+						await sessionQueries.revokeSession(user.userId, user.sessionId);
+					} else if (refreshToken) {
+						// Access token caducado: la sesión se encuentra por el token de refresco
+						await revokeRefreshTokenSession(refreshToken);
+					}
+					clearAuthCookies(cookie);
+
+					return { success: true, message: "Logged out successfully" };
+				},
+			)
+
+			// Sesiones abiertas en otros dispositivos
+			.get(
+				"/auth/sessions",
+				async ({
+					user,
+					set,
+				}: {
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const sessions = await sessionQueries.getUserSessions(user.userId);
+					return {
+						sessions: sessions.map((session) => ({
+							id: session.id,
+							provider: session.provider,
+							user_agent: session.user_agent,
+							ip_address: session.ip_address,
+							created_at: session.created_at,
+							last_seen_at: session.last_seen_at,
+							current: session.id === user.sessionId,
+						})),
+					};
+				},
+			)
+
+			.delete(
+				"/auth/sessions/:id",
+				async ({
+					params,
+					user,
+					set,
+					cookie,
+				}: {
+					params: { id: number };
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+					cookie: Record<string, Cookie<string | undefined>>;
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const revoked = await sessionQueries.revokeSession(
+						user.userId,
+						params.id,
+					);
+					if (!revoked) {
+						set.status = 404;
+						return { error: "Session not found" };
+					}
+					if (revoked.id === user.sessionId) {
+						clearAuthCookies(cookie);
+					}
+					return { success: true, current: revoked.id === user.sessionId };
+				},
+				{ params: t.Object({ id: t.Numeric() }) },
+			)
+
+			// Cerrar sesión en todos los dispositivos (incluido este)
+			.delete(
+				"/auth/sessions",
+				async ({
+					user,
+					set,
+					cookie,
+				}: {
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+					cookie: Record<string, Cookie<string | undefined>>;
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const revoked = await sessionQueries.revokeUserSessions(user.userId);
+					clearAuthCookies(cookie);
+					return { success: true, revoked };
+				},
+			)
+
+			.get("/auth/me", ({ user, set }: { user: any; set: ElysiaContext["set"] }) => {
+				if (!user) {
+					// 401 para que el cliente intente renovar la sesión
+					set.status = 401;
+					return { authenticated: false };
+				}
+
 				return {
-					top20: completeRanking.slice(0, 20),
-					additional: completeRanking.slice(20),
-					total: completeRanking.length,
+					authenticated: true,
+					user: {
+						id: user.userId,
+						provider: user.provider,
+						username: user.username,
+						avatarUrl: user.avatarUrl,
+					},
 				};
 			})
 
-			.get("/languages/all", async () => await languageQueries.getAllLanguagesRanked())
-
+			// Identidades enlazadas a la cuenta
 			.get(
-				"/languages/top/:limit",
-				({ params }: { params: { limit: string } }) => {
-					const limit = parseInt(params.limit) || 20;
-					return languageQueries.getTopLanguages(limit);
+				"/account/identities",
+				async ({
+					user,
+					set,
+				}: {
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+
+					const identities = await identityQueries.getUserIdentities(
+						user.userId,
+					);
+					return {
+						identities: identities.map((identity) => ({
+							id: identity.id,
+							provider: identity.provider,
+							username: identity.username,
+							email: identity.email,
+							created_at: identity.created_at,
+							last_login_at: identity.last_login_at,
+						})),
+						providers: listIdentityProviders(identityProviders),
+					};
 				},
 			)
 
-			.get("/languages/:id", ({ params }: { params: { id: string } }) => {
-				const language = languageQueries.getLanguageById(parseInt(params.id));
-				if (!language) {
-					throw new Error("Language not found");
-				}
-				return language;
-			})
-
-			// Endpoint para obtener ranking actual
-			.get("/ranking", () => ({
-				month: dbUtils.getCurrentMonth(),
-				ranking: dbUtils.getTopRankingWithStats(20),
-				stats: voteQueries.getCurrentMonthStats(),
-			}))
-
-			// Endpoints de prueba para usuarios (mock)
-			.post(
-				"/test/create-user",
-				({
-					body,
+			.delete(
+				"/account/identities/:id",
+				async ({
+					params,
+					user,
+					set,
 				}: {
-					body: { githubId: number; username: string; avatarUrl?: string };
+					params: { id: number };
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
 				}) => {
-					const { githubId, username, avatarUrl } = body;
-					if (!githubId || !username) {
-						throw new Error("githubId and username are required");
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
 					}
 
-					const user = userQueries.upsertUser(githubId, username, avatarUrl);
-					return { success: true, user };
+					const unlinked = await unlinkIdentity(user.userId, params.id);
+					if (!unlinked.isValid) {
+						set.status = unlinked.notFound ? 404 : unlinked.conflict ? 409 : 400;
+						return { error: unlinked.error };
+					}
+					return { success: true };
 				},
+				{ params: t.Object({ id: t.Numeric() }) },
 			)
 
+			// Fusión de cuentas pendiente (tras enlazar una identidad de otra cuenta)
 			.get(
-				"/test/user/:githubId",
-				({ params }: { params: { githubId: string } }) => {
-					const user = userQueries.getUserByGithubId(parseInt(params.githubId));
+				"/account/merge",
+				async ({
+					user,
+					set,
+					cookie,
+				}: {
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+					cookie: Record<string, Cookie<string | undefined>>;
+				}) => {
 					if (!user) {
-						throw new Error("User not found");
+						set.status = 401;
+						return { error: "Authentication required" };
 					}
-					return user;
+					const request = openAccountMergeRequest(
+						cookie[ACCOUNT_MERGE_COOKIE]?.value,
+						user.userId,
+					);
+					if (!request) {
+						set.status = 404;
+						return { error: "No account merge pending" };
+					}
+
+					const preview = await previewAccountMerge(
+						user.userId,
+						request.sourceUserId,
+					);
+					if (!preview.isValid) {
+						set.status = preview.notFound ? 404 : preview.conflict ? 409 : 400;
+						return { error: preview.error };
+					}
+					return preview.result;
 				},
 			)
 
-			// Endpoints de autenticación
-			.get("/auth/login", () => {
-				const state = crypto.randomUUID();
-				const authUrl = githubAuth.getAuthUrl(state);
-
-				// En un sistema real, guardaríamos el state en una sesión temporal
-				// Por simplicidad, lo omitimos por ahora
-
-				return Response.redirect(authUrl, 302);
-			})
-
-			.get("/auth/callback", async ({ query, cookie, jwt }: { query: Record<string, string>; cookie: any; jwt: any }) => {
-				try {
-					const { code } = query as { code?: string };
-
-					if (!code) {
-						throw new Error("No authorization code received");
+			.post(
+				"/account/merge",
+				async ({
+					user,
+					set,
+					cookie,
+				}: {
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+					cookie: Record<string, Cookie<string | undefined>>;
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
 					}
-
-					// Autenticar usuario con GitHub
-					const githubUser = await githubAuth.authenticateUser(code);
-
-					// Crear o actualizar usuario en nuestra base de datos
-					const user = await userQueries.upsertUser(
-						githubUser.id,
-						githubUser.login,
-						githubUser.avatar_url,
+					const request = openAccountMergeRequest(
+						cookie[ACCOUNT_MERGE_COOKIE]?.value,
+						user.userId,
 					);
+					if (!request) {
+						set.status = 404;
+						return { error: "No account merge pending" };
+					}
 
-					// Crear token JWT
-					const token = await createSessionToken(user, jwt);
-
-					// Establecer cookie de autenticación
-					cookie.auth_token.value = token;
-					cookie.auth_token.httpOnly = true;
-					cookie.auth_token.secure = process.env.NODE_ENV === "production";
-					cookie.auth_token.sameSite = "lax";
-					cookie.auth_token.maxAge = 7 * 24 * 60 * 60; // 7 días
-					cookie.auth_token.path = "/";
-
-					// Redirigir a la página principal
-					return Response.redirect("/", 302);
-				} catch (error) {
-					console.error("Auth callback error:", error);
-					return Response.redirect("/?error=auth_failed", 302);
-				}
-			})
-
-			.post("/auth/logout", ({ cookie }: { cookie: any }) => {
-				// Limpiar cookie de autenticación configurándola para que expire
-				cookie.auth_token.value = "";
-				cookie.auth_token.httpOnly = true;
-				cookie.auth_token.secure = process.env.NODE_ENV === "production";
-				cookie.auth_token.sameSite = "lax";
-				cookie.auth_token.maxAge = 0; // Expira inmediatamente
-				cookie.auth_token.path = "/";
-
-				return { success: true, message: "Logged out successfully" };
-			})
-
-			.get("/auth/me", ({ user }: { user: any }) => {
-				if (!user) {
-					return { authenticated: false };
-				}
+					const merged = await mergeAccounts(user.userId, request.sourceUserId);
+					expireCookie(cookie[ACCOUNT_MERGE_COOKIE], ACCOUNT_MERGE_PATH);
+					if (!merged.isValid) {
+						set.status = merged.notFound ? 404 : merged.conflict ? 409 : 400;
+						return { error: merged.error };
+					}
+					return { success: true, ...merged.result };
+				},
+			)
 
-				return {
-					authenticated: true,
-					user: {
-						id: user.userId,
-						githubId: user.githubId,
-						username: user.username,
-						avatarUrl: user.avatarUrl,
-					},
-				};
-			})
+			.delete(
+				"/account/merge",
+				({
+					cookie,
+				}: {
+					cookie: Record<string, Cookie<string | undefined>>;
+				}) => {
+					expireCookie(cookie[ACCOUNT_MERGE_COOKIE], ACCOUNT_MERGE_PATH);
+					return { success: true };
+				},
+			)
 
-			.get("/user/votes", async ({ user }: { user: any }) => {
+			.get("/user/votes", async ({ user, set }: { user: any; set: ElysiaContext["set"] }) => {
 				if (!user) {
-					throw new Error("Authentication required");
+					set.status = 401;
+					return { error: "Authentication required" };
 				}
 
 				const authenticatedUser = user;
 				const month = dbUtils.getCurrentMonth();
 
 				// Obtener votos del usuario para el mes actual
-				const votes = await voteQueries.getUserMonthlyVotes(
-					authenticatedUser.userId,
-					month,
-				);
 				const monthlyPoints = await voteQueries.getUserMonthlyPoints(
 					authenticatedUser.userId,
 					month,
 				);
-
-				// Convertir a formato que espera el frontend
-				const votePoints: Record<number, number> = {};
-				votes.forEach((vote: { language_id: number; points: number }) => {
-					votePoints[vote.language_id] = vote.points;
-				});
+				// Reparto acumulado por lenguaje y presupuesto consumido según la estrategia
+				const status = await getUserVotingStatus(authenticatedUser.userId, month);
 
 				return {
-					votePoints,
-					totalPoints: monthlyPoints.total_points,
-					remainingPoints: 10 - monthlyPoints.total_points,
+					votePoints: status.allocation,
+					totalPoints: status.used,
+					budget: status.budget,
+					remainingPoints: status.remaining,
 					votesCount: monthlyPoints.votes_count,
+					strategy: status.rules.scoring_strategy,
 					month,
 				};
 			})
@@ -334,54 +1544,41 @@ const app = new Elysia()
 						return { error: "languageId and points are required" };
 					}
 
-					// Validar voto usando el nuevo sistema acumulativo
-					const validation = await validateAddVote(
-						authenticatedUser.userId,
-						languageId,
-						points,
-						month,
-					);
-					if (!validation.isValid) {
-						set.status = 400;
-						return { error: validation.error };
-					}
-
 					try {
-						// Agregar voto (sistema acumulativo)
-						const vote = await voteQueries.addVote(
+						// Validar y agregar voto en una sola transacción (sistema acumulativo)
+						// El trigger de la migración 002 actualiza total_votes del lenguaje
+						const recorded = await recordVote(
 							authenticatedUser.userId,
 							languageId,
 							points,
 							month,
 						);
+						if (!recorded.isValid || !recorded.result) {
+							set.status = recorded.periodClosed ? 403 : 400;
+							return { error: recorded.error };
+						}
+						const vote = recorded.result;
+						// Ya confirmado el voto: quien recargue el ranking ahora (sin esperar
+						// al aviso de NOTIFY) debe ver los datos nuevos
+						await refreshRankingData();
 
-						// Actualizar total de votos del lenguaje
-						languageQueries.updateLanguageVotes(languageId);
-
-						// Calcular puntos restantes
-						const newMonthlyPoints = await voteQueries.getUserMonthlyPoints(
+						// Calcular puntos restantes y puntos actuales del lenguaje
+						const status = await getUserVotingStatus(
 							authenticatedUser.userId,
 							month,
 						);
-						const remainingPoints = 10 - newMonthlyPoints.total_points;
-
-						// Calcular puntos actuales del lenguaje
-						const allLanguageVotes = await voteQueries.getUserMonthlyVotes(authenticatedUser.userId, month);
-						const languageVotes = allLanguageVotes.filter((v: { language_id: number }) => v.language_id === languageId);
-						const languagePoints = languageVotes.reduce(
-							(sum: number, v: { points: number }) => sum + v.points,
-							0,
-						);
+						const remainingPoints = status.remaining;
+						const languagePoints = status.allocation[languageId] ?? 0;
 
 						return {
 							success: true,
 							message: `Added ${points} points! Language now has ${languagePoints} points.`,
 							vote: {
-								id: (vote as { id: number }).id,
-								userId: (vote as { user_id: number }).user_id,
-								languageId: (vote as { language_id: number }).language_id,
-								points: (vote as { points: number }).points,
-								month: (vote as { vote_month: string }).vote_month,
+								id: vote.id,
+								userId: vote.user_id,
+								languageId: vote.language_id,
+								points: vote.points,
+								month: vote.vote_month,
 							},
 							remaining_points: remainingPoints,
 							language_total_points: languagePoints,
@@ -394,6 +1591,182 @@ const app = new Elysia()
 				},
 			)
 
+			// Endpoint para retirar los puntos de un lenguaje en el mes actual
+			.delete(
+				"/vote/:languageId",
+				async ({
+					params,
+					user,
+					set,
+				}: {
+					params: { languageId: string };
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+					const languageId = parseInt(params.languageId);
+					const month = dbUtils.getCurrentMonth();
+
+					if (!languageId) {
+						set.status = 400;
+						return { error: "A valid languageId is required" };
+					}
+
+					try {
+						const retracted = await retractVote(user.userId, languageId, month);
+						if (!retracted.isValid || retracted.result === undefined) {
+							set.status = retracted.periodClosed ? 403 : 400;
+							return { error: retracted.error };
+						}
+						const removedPoints = retracted.result;
+						await refreshRankingData();
+						const status = await getUserVotingStatus(user.userId, month);
+
+						return {
+							success: true,
+							message: `Removed ${removedPoints} points from this language.`,
+							removed_points: removedPoints,
+							remaining_points: status.remaining,
+						};
+					} catch (error) {
+						console.error("Error removing vote:", error);
+						set.status = 500;
+						return { error: "Failed to remove vote. Please try again." };
+					}
+				},
+			)
+
+			// Endpoint para mover puntos de un lenguaje a otro en el mes actual
+			.post(
+				"/vote/move",
+				async ({
+					body,
+					user,
+					set,
+				}: {
+					body: { fromLanguageId: number; toLanguageId: number; points: number };
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+					const { fromLanguageId, toLanguageId, points } = body;
+					const month = dbUtils.getCurrentMonth();
+
+					if (!fromLanguageId || !toLanguageId || !points) {
+						set.status = 400;
+						return {
+							error: "fromLanguageId, toLanguageId and points are required",
+						};
+					}
+
+					try {
+						const moved = await moveVotePoints(
+							user.userId,
+							fromLanguageId,
+							toLanguageId,
+							points,
+							month,
+						);
+						if (!moved.isValid || !moved.result) {
+							set.status = moved.periodClosed ? 403 : 400;
+							return { error: moved.error };
+						}
+						const vote = moved.result;
+						await refreshRankingData();
+
+						return {
+							success: true,
+							message: `Moved ${points} points.`,
+							vote: {
+								id: vote.id,
+								userId: vote.user_id,
+								languageId: vote.language_id,
+								points: vote.points,
+								month: vote.vote_month,
+							},
+						};
+					} catch (error) {
+						console.error("Error moving points:", error);
+						set.status = 500;
+						return { error: "Failed to move points. Please try again." };
+					}
+				},
+			)
+
+			// Endpoint para enviar el reparto completo del mes de una vez
+			.post(
+				"/ballot",
+				async ({
+					body,
+					user,
+					set,
+				}: {
+					body: { allocations?: Record<string, number> };
+					user: ElysiaContext["user"];
+					set: ElysiaContext["set"];
+				}) => {
+					if (!user) {
+						set.status = 401;
+						return { error: "Authentication required" };
+					}
+					const month = dbUtils.getCurrentMonth();
+
+					if (
+						!body?.allocations ||
+						typeof body.allocations !== "object" ||
+						Array.isArray(body.allocations)
+					) {
+						set.status = 400;
+						return { error: "allocations must be a map of languageId to points" };
+					}
+
+					// Las claves son ids enteros: parseInt aceptaría "1abc" o "1.9" como 1
+					const allocation: BallotAllocation = {};
+					const keyErrors: Record<string, string> = {};
+					for (const [key, points] of Object.entries(body.allocations)) {
+						const languageId = Number(key);
+						if (!/^\d+$/.test(key) || languageId < 1) {
+							keyErrors[key] = "Invalid languageId";
+							continue;
+						}
+						allocation[languageId] = Number(points);
+					}
+					if (Object.keys(keyErrors).length > 0) {
+						set.status = 400;
+						return { error: "Some allocations are invalid", errors: keyErrors };
+					}
+
+					try {
+						const submitted = await submitBallot(user.userId, allocation, month);
+						if (!submitted.isValid || !submitted.result) {
+							set.status = submitted.periodClosed ? 403 : 400;
+							return { error: submitted.error, errors: submitted.errors };
+						}
+						await refreshRankingData();
+
+						const status = await getUserVotingStatus(user.userId, month);
+
+						return {
+							success: true,
+							message: `Ballot saved using ${status.used} of ${status.budget} budget.`,
+							votePoints: status.allocation,
+							totalPoints: status.used,
+							remaining_points: status.remaining,
+						};
+					} catch (error) {
+						console.error("Error submitting ballot:", error);
+						set.status = 500;
+						return { error: "Failed to submit ballot. Please try again." };
+					}
+				},
+			)
+
 			// Endpoint para simular votación (mock - solo para desarrollo)
 			.post(
 				"/test/vote",
@@ -413,8 +1786,11 @@ const app = new Elysia()
 						throw new Error("userId, languageId and points are required");
 					}
 
-					if (points < 1 || points > 5) {
-						throw new Error("Points must be between 1 and 5");
+					const rules = await getVotingRules(month);
+					if (points < rules.min_increment || points > rules.max_increment) {
+						throw new Error(
+							`Points must be between ${rules.min_increment} and ${rules.max_increment}`,
+						);
 					}
 
 					// Verificar si ya votó por este lenguaje este mes
@@ -424,9 +1800,10 @@ const app = new Elysia()
 
 					// Verificar puntos disponibles
 					const monthlyPoints = await voteQueries.getUserMonthlyPoints(userId, month);
-					if (monthlyPoints.total_points + points > 10) {
+					const budget = await getPointsBudget(userId, month, rules);
+					if (monthlyPoints.total_points + points > budget) {
 						throw new Error(
-							`Not enough points. Used: ${monthlyPoints.total_points}/10`,
+							`Not enough points. Used: ${monthlyPoints.total_points}/${budget}`,
 						);
 					}
 
@@ -435,7 +1812,7 @@ const app = new Elysia()
 						success: true,
 						message: "Vote would be recorded",
 						vote: { userId, languageId, points, month },
-						remaining_points: 10 - monthlyPoints.total_points - points,
+						remaining_points: budget - monthlyPoints.total_points - points,
 					};
 				},
 			)
@@ -488,7 +1865,368 @@ const app = new Elysia()
 									error instanceof Error ? error.message : "Unknown error",
 							};
 						}
-					}),
+					})
+
+					.guard({ beforeHandle: requireAdmin() }, (app) =>
+						app
+							// Catálogo completo, incluidos los lenguajes archivados
+							.get("/languages", async () => ({
+								languages: await languageQueries.getCatalog(),
+							}))
+
+							.post(
+								"/languages",
+								async ({
+									body,
+									set,
+								}: {
+									body: LanguageInput;
+									set: ElysiaContext["set"];
+								}) => {
+									const created = await createLanguage(body);
+									if (!created.isValid) {
+										set.status = created.conflict ? 409 : 400;
+										return { error: created.error };
+									}
+									set.status = 201;
+									return { success: true, language: created.result };
+								},
+								{ body: languageInputSchema },
+							)
+
+							.patch(
+								"/languages/:id",
+								async ({
+									params,
+									body,
+									set,
+								}: {
+									params: { id: number };
+									body: Partial<LanguageInput>;
+									set: ElysiaContext["set"];
+								}) => {
+									const updated = await updateLanguage(params.id, body);
+									if (!updated.isValid) {
+										set.status = updated.notFound
+											? 404
+											: updated.conflict
+												? 409
+												: 400;
+										return { error: updated.error };
+									}
+									return { success: true, language: updated.result };
+								},
+								{
+									params: t.Object({ id: t.Numeric() }),
+									body: t.Partial(languageInputSchema),
+								},
+							)
+
+							// Archivar: deja de admitir votos y sale del ranking, pero conserva su historial
+							.post(
+								"/languages/:id/archive",
+								async ({
+									params,
+									set,
+								}: {
+									params: { id: number };
+									set: ElysiaContext["set"];
+								}) => {
+									const archived = await setLanguageArchived(params.id, true);
+									if (!archived.isValid) {
+										set.status = 404;
+										return { error: archived.error };
+									}
+									return { success: true, language: archived.result };
+								},
+								{ params: t.Object({ id: t.Numeric() }) },
+							)
+
+							.post(
+								"/languages/:id/unarchive",
+								async ({
+									params,
+									set,
+								}: {
+									params: { id: number };
+									set: ElysiaContext["set"];
+								}) => {
+									const restored = await setLanguageArchived(params.id, false);
+									if (!restored.isValid) {
+										set.status = 404;
+										return { error: restored.error };
+									}
+									return { success: true, language: restored.result };
+								},
+								{ params: t.Object({ id: t.Numeric() }) },
+							)
+
+							// Cola de sugerencias (pendientes por defecto)
+							.get(
+								"/suggestions",
+								async ({
+									query,
+								}: {
+									query: { status?: SuggestionStatus };
+								}) => ({
+									suggestions: await suggestionQueries.getSuggestions(
+										query.status ?? "pending",
+										null,
+									),
+								}),
+								{
+									query: t.Object({
+										status: t.Optional(
+											t.Union([
+												t.Literal("pending"),
+												t.Literal("approved"),
+												t.Literal("rejected"),
+											]),
+										),
+									}),
+								},
+							)
+
+							// Aprobar una sugerencia: crea el lenguaje en el catálogo
+							.post(
+								"/suggestions/:id/approve",
+								async ({
+									params,
+									body,
+									set,
+								}: {
+									params: { id: number };
+									body: SuggestionApproval;
+									set: ElysiaContext["set"];
+								}) => {
+									const approved = await approveSuggestion(params.id, body);
+									if (!approved.isValid) {
+										set.status = approved.notFound
+											? 404
+											: approved.conflict
+												? 409
+												: 400;
+										return { error: approved.error };
+									}
+									set.status = 201;
+									return { success: true, ...approved.result };
+								},
+								{
+									params: t.Object({ id: t.Numeric() }),
+									body: t.Object({
+										color: t.Optional(t.String()),
+										is_featured: t.Optional(t.Boolean()),
+									}),
+								},
+							)
+
+							.post(
+								"/suggestions/:id/reject",
+								async ({
+									params,
+									body,
+									set,
+								}: {
+									params: { id: number };
+									body: { reason: string };
+									set: ElysiaContext["set"];
+								}) => {
+									const rejected = await rejectSuggestion(
+										params.id,
+										body.reason,
+									);
+									if (!rejected.isValid) {
+										set.status = rejected.notFound
+											? 404
+											: rejected.conflict
+												? 409
+												: 400;
+										return { error: rejected.error };
+									}
+									return { success: true, suggestion: rejected.result };
+								},
+								{
+									params: t.Object({ id: t.Numeric() }),
+									body: t.Object({
+										reason: t.String({ minLength: 1, maxLength: 500 }),
+									}),
+								},
+							)
+
+							// Cola de moderación de revisiones pendientes
+							.get("/revisions", async () => ({
+								revisions: await revisionQueries.getPendingRevisions(),
+							}))
+
+							.post(
+								"/revisions/:id/apply",
+								async ({
+									params,
+									set,
+								}: {
+									params: { id: number };
+									set: ElysiaContext["set"];
+								}) => {
+									const applied = await applyRevision(params.id);
+									if (!applied.isValid) {
+										set.status = applied.notFound
+											? 404
+											: applied.conflict
+												? 409
+												: 400;
+										return { error: applied.error };
+									}
+									return { success: true, revision: applied.result };
+								},
+								{ params: t.Object({ id: t.Numeric() }) },
+							)
+
+							.post(
+								"/revisions/:id/reject",
+								async ({
+									params,
+									body,
+									set,
+								}: {
+									params: { id: number };
+									body: { reason: string };
+									set: ElysiaContext["set"];
+								}) => {
+									const rejected = await rejectRevision(
+										params.id,
+										body.reason,
+									);
+									if (!rejected.isValid) {
+										set.status = rejected.notFound
+											? 404
+											: rejected.conflict
+												? 409
+												: 400;
+										return { error: rejected.error };
+									}
+									return { success: true, revision: rejected.result };
+								},
+								{
+									params: t.Object({ id: t.Numeric() }),
+									body: t.Object({
+										reason: t.String({ minLength: 1, maxLength: 500 }),
+									}),
+								},
+							)
+
+							// Volver al estado de un lenguaje tras una revisión aplicada
+							.post(
+								"/languages/:id/revisions/:revisionId/rollback",
+								async ({
+									params,
+									set,
+								}: {
+									params: { id: number; revisionId: number };
+									set: ElysiaContext["set"];
+								}) => {
+									const rolledBack = await rollbackToRevision(
+										params.id,
+										params.revisionId,
+									);
+									if (!rolledBack.isValid) {
+										set.status = rolledBack.notFound ? 404 : 400;
+										return { error: rolledBack.error };
+									}
+									return { success: true, revision: rolledBack.result };
+								},
+								{
+									params: t.Object({
+										id: t.Numeric(),
+										revisionId: t.Numeric(),
+									}),
+								},
+							)
+
+							// Fusionar un lenguaje duplicado en otro (el id antiguo redirige al nuevo)
+							.post(
+								"/languages/:id/merge",
+								async ({
+									params,
+									body,
+									set,
+								}: {
+									params: { id: number };
+									body: { into: number };
+									set: ElysiaContext["set"];
+								}) => {
+									const merge = await mergeLanguages(params.id, body.into);
+									if (!merge.isValid) {
+										set.status = merge.notFound ? 404 : 400;
+										return { error: merge.error };
+									}
+									return { success: true, ...merge.result };
+								},
+								{
+									params: t.Object({ id: t.Numeric() }),
+									body: t.Object({ into: t.Integer({ minimum: 1 }) }),
+								},
+							)
+
+							.get(
+								"/languages/:id/aliases",
+								async ({ params }: { params: { id: number } }) => ({
+									aliases: await aliasQueries.getAliases(params.id),
+								}),
+								{ params: t.Object({ id: t.Numeric() }) },
+							)
+
+							.post(
+								"/languages/:id/aliases",
+								async ({
+									params,
+									body,
+									set,
+								}: {
+									params: { id: number };
+									body: { alias: string };
+									set: ElysiaContext["set"];
+								}) => {
+									const added = await addLanguageAlias(params.id, body.alias);
+									if (!added.isValid) {
+										set.status = added.notFound ? 404 : 409;
+										return { error: added.error };
+									}
+									set.status = 201;
+									return { success: true, alias: added.result };
+								},
+								{
+									params: t.Object({ id: t.Numeric() }),
+									body: t.Object({ alias: t.String() }),
+								},
+							)
+
+							.delete(
+								"/languages/:id/aliases/:aliasId",
+								async ({
+									params,
+									set,
+								}: {
+									params: { id: number; aliasId: number };
+									set: ElysiaContext["set"];
+								}) => {
+									const removed = await removeLanguageAlias(
+										params.id,
+										params.aliasId,
+									);
+									if (!removed.isValid) {
+										set.status = 404;
+										return { error: removed.error };
+									}
+									return { success: true };
+								},
+								{
+									params: t.Object({
+										id: t.Numeric(),
+										aliasId: t.Numeric(),
+									}),
+								},
+							),
+					),
 			),
 	)
 	.listen(process.env.PORT ?? 3000);
@@ -1,3 +1,10 @@
+import type {
+	AuthorizationRequest,
+	IdentityProfile,
+	IdentityProvider,
+	OAuthClientConfig,
+} from "./provider";
+
 export interface GitHubUser {
 	id: number;
 	login: string;
@@ -6,29 +13,33 @@ export interface GitHubUser {
 	email: string | null;
 }
 
-export interface GitHubAuthConfig {
-	clientId: string;
-	clientSecret: string;
-	redirectUri: string;
-}
+export type GitHubAuthConfig = OAuthClientConfig;
+
+export class GitHubAuth implements IdentityProvider {
+	readonly id = "github";
+	readonly name = "GitHub";
 
-export class GitHubAuth {
 	constructor(private config: GitHubAuthConfig) {}
 
-	// Generar URL de autorización de GitHub
-	getAuthUrl(state: string): string {
+	// Generar URL de autorización de GitHub (con PKCE S256)
+	getAuthUrl({ state, codeChallenge }: AuthorizationRequest): string {
 		const params = new URLSearchParams({
 			client_id: this.config.clientId,
 			redirect_uri: this.config.redirectUri,
 			scope: "user:email",
 			state,
+			code_challenge: codeChallenge,
+			code_challenge_method: "S256",
 		});
 
 		return `https://github.com/login/oauth/authorize?${params.toString()}`;
 	}
 
 	// Intercambiar código por token de acceso
-	async exchangeCodeForToken(code: string): Promise<string> {
+	async exchangeCodeForToken(
+		code: string,
+		codeVerifier: string,
+	): Promise<string> {
 		const response = await fetch(
 			"https://github.com/login/oauth/access_token",
 			{
@@ -41,6 +52,7 @@ export class GitHubAuth {
 					client_id: this.config.clientId,
 					client_secret: this.config.clientSecret,
 					code,
+					code_verifier: codeVerifier,
 				}),
 			},
 		);
@@ -78,10 +90,19 @@ export class GitHubAuth {
 		return user;
 	}
 
-	// Flujo completo de autenticación
-	async authenticateUser(code: string): Promise<GitHubUser> {
-		const accessToken = await this.exchangeCodeForToken(code);
+	// Flujo completo de autenticación (GitHub no emite id_token: no hay nonce)
+	async authenticateUser(
+		code: string,
+		codeVerifier: string,
+	): Promise<IdentityProfile> {
+		const accessToken = await this.exchangeCodeForToken(code, codeVerifier);
 		const user = await this.getUserInfo(accessToken);
-		return user;
+		return {
+			provider: this.id,
+			subject: String(user.id),
+			username: user.login,
+			avatarUrl: user.avatar_url,
+			email: user.email,
+		};
 	}
 }
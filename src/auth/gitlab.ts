@@ -0,0 +1,80 @@
+import {
+	type AuthorizationRequest,
+	type IdentityProfile,
+	type IdentityProvider,
+	type OAuthClientConfig,
+	requestToken,
+} from "./provider";
+
+export interface GitLabUser {
+	id: number;
+	username: string;
+	name: string | null;
+	avatar_url: string | null;
+	email: string | null;
+}
+
+export interface GitLabAuthConfig extends OAuthClientConfig {
+	// Instancia de GitLab (gitlab.com o autoalojada)
+	baseUrl: string;
+}
+
+export class GitLabAuth implements IdentityProvider {
+	readonly id = "gitlab";
+	readonly name = "GitLab";
+
+	constructor(private config: GitLabAuthConfig) {}
+
+	private url(path: string): string {
+		return `${this.config.baseUrl.replace(/\/+$/, "")}${path}`;
+	}
+
+	// Generar URL de autorización de GitLab (con PKCE S256)
+	getAuthUrl({ state, codeChallenge }: AuthorizationRequest): string {
+		const params = new URLSearchParams({
+			client_id: this.config.clientId,
+			redirect_uri: this.config.redirectUri,
+			response_type: "code",
+			scope: "read_user",
+			state,
+			code_challenge: codeChallenge,
+			code_challenge_method: "S256",
+		});
+
+		return `${this.url("/oauth/authorize")}?${params.toString()}`;
+	}
+
+	// Obtener información del usuario desde la API de GitLab
+	async getUserInfo(accessToken: string): Promise<GitLabUser> {
+		const response = await fetch(this.url("/api/v4/user"), {
+			headers: { Authorization: `Bearer ${accessToken}` },
+		});
+
+		if (!response.ok) {
+			throw new Error("Failed to fetch user info");
+		}
+
+		return (await response.json()) as GitLabUser;
+	}
+
+	// Flujo completo de autenticación
+	async authenticateUser(
+		code: string,
+		codeVerifier: string,
+	): Promise<IdentityProfile> {
+		const { access_token } = await requestToken(
+			this.url("/oauth/token"),
+			this.config,
+			code,
+			codeVerifier,
+		);
+		const user = await this.getUserInfo(access_token);
+		return {
+			provider: this.id,
+			subject: String(user.id),
+			username: user.username,
+			avatarUrl: user.avatar_url,
+			email: user.email,
+		};
+	}
+}
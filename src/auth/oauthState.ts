@@ -0,0 +1,206 @@
+import {
+	createHash,
+	createHmac,
+	randomBytes,
+	timingSafeEqual,
+} from "node:crypto";
+import { jwtConfig } from "./session";
+
+// Cookie que acompaña al usuario mientras está en la página del proveedor
+// (solo viaja a /app/auth: login y callback)
+export const OAUTH_STATE_COOKIE = "oauth_state";
+export const OAUTH_STATE_PATH = "/app/auth";
+
+// Tiempo máximo para completar el login en el proveedor (segundos)
+export const OAUTH_STATE_MAX_AGE = 10 * 60;
+
+// Código de error que recibe el frontend (?error=) si el state no es válido
+export const OAUTH_STATE_ERROR = "auth_state_invalid";
+
+// Cookie con la fusión de cuentas pendiente de confirmar (ver /app/account/merge)
+export const ACCOUNT_MERGE_COOKIE = "account_merge";
+export const ACCOUNT_MERGE_PATH = "/app/account";
+export const ACCOUNT_MERGE_MAX_AGE = 10 * 60;
+
+export interface OAuthState {
+	// Proveedor de identidad con el que se inició el login
+	provider: string;
+	state: string;
+	// Verificador PKCE; al proveedor solo se envía su hash (code_challenge)
+	codeVerifier: string;
+	// Nonce OIDC: el id_token debe traer el mismo valor
+	nonce: string;
+	// Ruta del mismo origen a la que volver tras el login
+	returnTo: string;
+	// Usuario que está enlazando otra identidad (null en un login normal)
+	linkUserId: number | null;
+	expiresAt: number;
+}
+
+// La identidad que se intentó enlazar ya pertenece a otra cuenta (source);
+// quien demostró controlar ambas puede fusionarla en la suya (target)
+export interface AccountMergeRequest {
+	sourceUserId: number;
+	targetUserId: number;
+	expiresAt: number;
+}
+
+function sign(value: string): string {
+	return createHmac("sha256", jwtConfig.secret)
+		.update(value)
+		.digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+	const bufferA = Buffer.from(a);
+	const bufferB = Buffer.from(b);
+	return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Solo se aceptan rutas relativas del propio sitio ("/ranking?month=2024-05").
+ * Cualquier otra cosa ("//evil.com", "https://...", "/\\evil.com") vuelve a "/"
+ */
+export function sanitizeReturnTo(value: string | undefined | null): string {
+	if (!value || !value.startsWith("/") || value.length > 512) return "/";
+	if (value.startsWith("//") || value.includes("\\")) return "/";
+	// Sin caracteres de control (evita cabeceras Location manipuladas)
+	for (let i = 0; i < value.length; i++) {
+		const code = value.charCodeAt(i);
+		if (code < 0x20 || code === 0x7f) return "/";
+	}
+	return value;
+}
+
+/**
+ * Añade un parámetro de consulta a una ruta relativa (p. ej. ?linked=github)
+ */
+export function withQueryParam(
+	path: string,
+	key: string,
+	value: string,
+): string {
+	const url = new URL(path, "http://localhost");
+	url.searchParams.set(key, value);
+	return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Genera un state y un verificador PKCE nuevos para iniciar el login
+ */
+export function createOAuthState(
+	provider: string,
+	returnTo?: string | null,
+	linkUserId: number | null = null,
+): OAuthState {
+	return {
+		provider,
+		linkUserId,
+		state: randomBytes(24).toString("base64url"),
+		codeVerifier: randomBytes(32).toString("base64url"),
+		nonce: randomBytes(16).toString("base64url"),
+		returnTo: sanitizeReturnTo(returnTo),
+		expiresAt: Date.now() + OAUTH_STATE_MAX_AGE * 1000,
+	};
+}
+
+/**
+ * code_challenge S256 de un verificador PKCE
+ */
+export function getCodeChallenge(codeVerifier: string): string {
+	return createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+// Serializa y firma un valor para guardarlo en una cookie
+function seal(value: object): string {
+	const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+	return `${payload}.${sign(payload)}`;
+}
+
+// Valor de una cookie sellada, o null si la firma no es válida
+function unseal<T>(sealed: string): T | null {
+	const [payload, signature] = sealed.split(".");
+	if (!payload || !signature || !safeEqual(signature, sign(payload))) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as T;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Serializa y firma el state para guardarlo en la cookie
+ */
+export function sealOAuthState(oauthState: OAuthState): string {
+	return seal(oauthState);
+}
+
+/**
+ * Comprueba la firma y la caducidad de la cookie y que su state y su
+ * proveedor coinciden con los del callback. Devuelve null si algo no cuadra
+ */
+export function openOAuthState(
+	sealed: string | undefined,
+	receivedState: string | undefined,
+	provider: string,
+): OAuthState | null {
+	if (!sealed || !receivedState) return null;
+
+	const oauthState = unseal<OAuthState>(sealed);
+	if (
+		!oauthState ||
+		typeof oauthState.state !== "string" ||
+		typeof oauthState.codeVerifier !== "string" ||
+		typeof oauthState.nonce !== "string" ||
+		oauthState.provider !== provider ||
+		oauthState.expiresAt < Date.now() ||
+		!safeEqual(oauthState.state, receivedState)
+	) {
+		return null;
+	}
+	return {
+		...oauthState,
+		returnTo: sanitizeReturnTo(oauthState.returnTo),
+		linkUserId: oauthState.linkUserId ?? null,
+	};
+}
+
+/**
+ * Sella una fusión de cuentas pendiente para la cookie ACCOUNT_MERGE_COOKIE
+ */
+export function sealAccountMergeRequest(
+	sourceUserId: number,
+	targetUserId: number,
+): string {
+	const request: AccountMergeRequest = {
+		sourceUserId,
+		targetUserId,
+		expiresAt: Date.now() + ACCOUNT_MERGE_MAX_AGE * 1000,
+	};
+	return seal(request);
+}
+
+/**
+ * Fusión pendiente de la cookie si es válida, no ha caducado y la pidió
+ * el usuario con sesión actual
+ */
+export function openAccountMergeRequest(
+	sealed: string | undefined,
+	targetUserId: number,
+): AccountMergeRequest | null {
+	if (!sealed) return null;
+
+	const request = unseal<AccountMergeRequest>(sealed);
+	if (
+		!request ||
+		request.targetUserId !== targetUserId ||
+		typeof request.sourceUserId !== "number" ||
+		request.expiresAt < Date.now()
+	) {
+		return null;
+	}
+	return request;
+}
@@ -0,0 +1,240 @@
+import { createPublicKey, type JsonWebKey, verify } from "node:crypto";
+import {
+	type AuthorizationRequest,
+	type IdentityProfile,
+	type IdentityProvider,
+	type OAuthClientConfig,
+	requestToken,
+} from "./provider";
+
+export interface OidcAuthConfig extends OAuthClientConfig {
+	id: string;
+	name: string;
+	// URL del emisor; los endpoints se obtienen de su documento de discovery
+	issuer: string;
+	scope?: string;
+}
+
+// Subconjunto del documento /.well-known/openid-configuration que usamos
+interface OidcMetadata {
+	issuer: string;
+	authorization_endpoint: string;
+	token_endpoint: string;
+	jwks_uri: string;
+}
+
+interface IdTokenHeader {
+	alg: string;
+	kid?: string;
+}
+
+interface IdTokenClaims {
+	iss: string;
+	sub: string;
+	aud: string | string[];
+	azp?: string;
+	exp: number;
+	iat: number;
+	nonce?: string;
+	preferred_username?: string;
+	name?: string;
+	email?: string;
+	picture?: string;
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+// Algoritmos de firma admitidos para el id_token (ambos sobre SHA-256)
+const SIGNING_ALGORITHMS = new Set(["RS256", "ES256"]);
+
+// Margen para desfases de reloj con el proveedor (segundos)
+const CLOCK_SKEW = 60;
+
+// Tiempo mínimo entre descargas del JWKS cuando aparece un kid desconocido (ms)
+const JWKS_REFRESH_INTERVAL = 60 * 1000;
+
+function decodeSegment<T>(segment: string): T {
+	return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+}
+
+function trimSlash(url: string): string {
+	return url.replace(/\/+$/, "");
+}
+
+export class OidcAuth implements IdentityProvider {
+	readonly id: string;
+	readonly name: string;
+
+	private metadata: Promise<OidcMetadata> | null = null;
+	private keys: Jwk[] = [];
+	private keysFetchedAt = 0;
+
+	constructor(private config: OidcAuthConfig) {
+		this.id = config.id;
+		this.name = config.name;
+	}
+
+	// Discovery: se descarga una vez y se reintenta solo si falla
+	private getMetadata(): Promise<OidcMetadata> {
+		if (!this.metadata) {
+			this.metadata = this.fetchMetadata().catch((error) => {
+				this.metadata = null;
+				throw error;
+			});
+		}
+		return this.metadata;
+	}
+
+	private async fetchMetadata(): Promise<OidcMetadata> {
+		const issuer = trimSlash(this.config.issuer);
+		const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+		if (!response.ok) {
+			throw new Error(`OIDC discovery failed for ${issuer}`);
+		}
+
+		const metadata = (await response.json()) as OidcMetadata;
+		if (trimSlash(metadata.issuer) !== issuer) {
+			throw new Error("OIDC discovery returned a different issuer");
+		}
+		return metadata;
+	}
+
+	// Clave pública del JWKS para un kid; si no está se vuelve a descargar
+	// (el proveedor puede haber rotado las claves)
+	private async getSigningKey(header: IdTokenHeader): Promise<Jwk> {
+		const find = () =>
+			this.keys.find(
+				(key) =>
+					(!header.kid || key.kid === header.kid) &&
+					(!key.alg || key.alg === header.alg),
+			);
+
+		let key = find();
+		if (!key && Date.now() - this.keysFetchedAt > JWKS_REFRESH_INTERVAL) {
+			const { jwks_uri } = await this.getMetadata();
+			const response = await fetch(jwks_uri);
+			if (!response.ok) {
+				throw new Error("Failed to fetch OIDC signing keys");
+			}
+			this.keys = ((await response.json()) as { keys: Jwk[] }).keys;
+			this.keysFetchedAt = Date.now();
+			key = find();
+		}
+
+		if (!key) {
+			throw new Error("No matching OIDC signing key");
+		}
+		return key;
+	}
+
+	/**
+	 * Valida firma (JWKS) y claims del id_token: emisor, audiencia,
+	 * caducidad y nonce del login en curso
+	 */
+	async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+		const [encodedHeader, encodedClaims, signature] = idToken.split(".");
+		if (!encodedHeader || !encodedClaims || !signature) {
+			throw new Error("Malformed id_token");
+		}
+
+		const header = decodeSegment<IdTokenHeader>(encodedHeader);
+		if (!SIGNING_ALGORITHMS.has(header.alg)) {
+			throw new Error(`Unsupported id_token algorithm: ${header.alg}`);
+		}
+
+		const jwk = await this.getSigningKey(header);
+		// Las firmas ES256 de JWS son r||s en crudo (formato IEEE P1363)
+		const valid = verify(
+			"sha256",
+			Buffer.from(`${encodedHeader}.${encodedClaims}`),
+			{
+				key: createPublicKey({ key: jwk, format: "jwk" }),
+				dsaEncoding: "ieee-p1363",
+			},
+			Buffer.from(signature, "base64url"),
+		);
+		if (!valid) {
+			throw new Error("Invalid id_token signature");
+		}
+
+		const claims = decodeSegment<IdTokenClaims>(encodedClaims);
+		const { issuer } = await this.getMetadata();
+		const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+		const now = Math.floor(Date.now() / 1000);
+
+		if (claims.iss !== issuer) {
+			throw new Error("id_token issuer mismatch");
+		}
+		if (
+			!audience.includes(this.config.clientId) ||
+			(claims.azp !== undefined && claims.azp !== this.config.clientId)
+		) {
+			throw new Error("id_token audience mismatch");
+		}
+		if (claims.exp + CLOCK_SKEW < now || claims.iat - CLOCK_SKEW > now) {
+			throw new Error("id_token expired");
+		}
+		if (claims.nonce !== nonce) {
+			throw new Error("id_token nonce mismatch");
+		}
+		if (!claims.sub) {
+			throw new Error("id_token has no subject");
+		}
+
+		return claims;
+	}
+
+	// Generar URL de autorización del proveedor (con PKCE S256 y nonce)
+	async getAuthUrl({
+		state,
+		codeChallenge,
+		nonce,
+	}: AuthorizationRequest): Promise<string> {
+		const { authorization_endpoint } = await this.getMetadata();
+		const params = new URLSearchParams({
+			client_id: this.config.clientId,
+			redirect_uri: this.config.redirectUri,
+			response_type: "code",
+			scope: this.config.scope ?? "openid profile email",
+			state,
+			nonce,
+			code_challenge: codeChallenge,
+			code_challenge_method: "S256",
+		});
+
+		return `${authorization_endpoint}?${params.toString()}`;
+	}
+
+	// Flujo completo de autenticación
+	async authenticateUser(
+		code: string,
+		codeVerifier: string,
+		nonce: string,
+	): Promise<IdentityProfile> {
+		const { token_endpoint } = await this.getMetadata();
+		const tokens = await requestToken(
+			token_endpoint,
+			this.config,
+			code,
+			codeVerifier,
+		);
+		if (!tokens.id_token) {
+			throw new Error("No id_token received");
+		}
+
+		const claims = await this.verifyIdToken(tokens.id_token, nonce);
+		const username =
+			claims.preferred_username ||
+			claims.name ||
+			claims.email?.split("@")[0] ||
+			claims.sub;
+
+		return {
+			provider: this.id,
+			subject: claims.sub,
+			username,
+			avatarUrl: claims.picture ?? null,
+			email: claims.email ?? null,
+		};
+	}
+}
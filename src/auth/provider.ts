@@ -0,0 +1,82 @@
+// Datos de la identidad devueltos por cualquier proveedor tras el login
+export interface IdentityProfile {
+	provider: string;
+	// Identificador estable del usuario en el proveedor (id de GitHub, "sub" de OIDC...)
+	subject: string;
+	username: string;
+	avatarUrl: string | null;
+	email: string | null;
+}
+
+// Parámetros de seguridad de un login en curso (ver oauthState.ts)
+export interface AuthorizationRequest {
+	state: string;
+	codeChallenge: string;
+	nonce: string;
+}
+
+export interface OAuthClientConfig {
+	clientId: string;
+	clientSecret: string;
+	redirectUri: string;
+}
+
+export interface IdentityProvider {
+	// Segmento de las rutas /app/auth/:provider/login|callback
+	readonly id: string;
+	// Nombre que se muestra en el botón de login
+	readonly name: string;
+
+	getAuthUrl(request: AuthorizationRequest): string | Promise<string>;
+	authenticateUser(
+		code: string,
+		codeVerifier: string,
+		nonce: string,
+	): Promise<IdentityProfile>;
+}
+
+export interface TokenResponse {
+	access_token: string;
+	id_token?: string;
+}
+
+/**
+ * Intercambio estándar (RFC 6749) del código de autorización por tokens,
+ * con el verificador PKCE
+ */
+export async function requestToken(
+	tokenEndpoint: string,
+	config: OAuthClientConfig,
+	code: string,
+	codeVerifier: string,
+): Promise<TokenResponse> {
+	const response = await fetch(tokenEndpoint, {
+		method: "POST",
+		headers: {
+			Accept: "application/json",
+			"Content-Type": "application/x-www-form-urlencoded",
+		},
+		body: new URLSearchParams({
+			grant_type: "authorization_code",
+			client_id: config.clientId,
+			client_secret: config.clientSecret,
+			redirect_uri: config.redirectUri,
+			code,
+			code_verifier: codeVerifier,
+		}),
+	});
+
+	if (!response.ok) {
+		throw new Error("Failed to exchange code for token");
+	}
+
+	const data = (await response.json()) as Partial<TokenResponse> & {
+		error?: string;
+	};
+
+	if (data.error || !data.access_token) {
+		throw new Error(data.error || "No access token received");
+	}
+
+	return { access_token: data.access_token, id_token: data.id_token };
+}
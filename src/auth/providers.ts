@@ -0,0 +1,80 @@
+import { GitHubAuth } from "./github";
+import { GitLabAuth } from "./gitlab";
+import { OidcAuth } from "./oidc";
+import type { IdentityProvider } from "./provider";
+
+export interface IdentityProviderInfo {
+	id: string;
+	name: string;
+}
+
+/**
+ * Proveedores de identidad habilitados. GitHub siempre está disponible;
+ * GitLab, Google y el OIDC genérico solo si tienen credenciales configuradas
+ */
+export function createIdentityProviders(
+	baseUrl: string,
+): Map<string, IdentityProvider> {
+	const redirectUri = (id: string) => `${baseUrl}/app/auth/${id}/callback`;
+	const providers: IdentityProvider[] = [
+		new GitHubAuth({
+			clientId: process.env.GITHUB_CLIENT_ID || "your-github-client-id",
+			clientSecret:
+				process.env.GITHUB_CLIENT_SECRET || "your-github-client-secret",
+			redirectUri: redirectUri("github"),
+		}),
+	];
+
+	if (process.env.GITLAB_CLIENT_ID && process.env.GITLAB_CLIENT_SECRET) {
+		providers.push(
+			new GitLabAuth({
+				baseUrl: process.env.GITLAB_URL || "https://gitlab.com",
+				clientId: process.env.GITLAB_CLIENT_ID,
+				clientSecret: process.env.GITLAB_CLIENT_SECRET,
+				redirectUri: redirectUri("gitlab"),
+			}),
+		);
+	}
+
+	if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+		providers.push(
+			new OidcAuth({
+				id: "google",
+				name: "Google",
+				issuer: "https://accounts.google.com",
+				clientId: process.env.GOOGLE_CLIENT_ID,
+				clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+				redirectUri: redirectUri("google"),
+			}),
+		);
+	}
+
+	if (
+		process.env.OIDC_ISSUER &&
+		process.env.OIDC_CLIENT_ID &&
+		process.env.OIDC_CLIENT_SECRET
+	) {
+		providers.push(
+			new OidcAuth({
+				id: "oidc",
+				name: process.env.OIDC_NAME || "Single sign-on",
+				issuer: process.env.OIDC_ISSUER,
+				clientId: process.env.OIDC_CLIENT_ID,
+				clientSecret: process.env.OIDC_CLIENT_SECRET,
+				scope: process.env.OIDC_SCOPE,
+				redirectUri: redirectUri("oidc"),
+			}),
+		);
+	}
+
+	return new Map(providers.map((provider) => [provider.id, provider]));
+}
+
+/**
+ * Lista pública de proveedores para los botones de login
+ */
+export function listIdentityProviders(
+	providers: Map<string, IdentityProvider>,
+): IdentityProviderInfo[] {
+	return [...providers.values()].map(({ id, name }) => ({ id, name }));
+}
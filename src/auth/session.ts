@@ -1,25 +1,80 @@
-import type { User } from "../database/queries";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { withTransaction } from "../database/database";
+import {
+	type RefreshTokenWithSession,
+	refreshTokenQueries,
+	sessionQueries,
+	type User,
+	userQueries,
+} from "../database/queries";
 
 export interface SessionData {
 	userId: number;
-	githubId: number;
+	// Proveedor de identidad con el que se inició la sesión
+	provider: string;
 	username: string;
 	avatarUrl?: string;
+	// Identificador de la fila en la tabla sessions
+	jti: string;
+	// Id de esa fila (no viaja en el token, se obtiene al verificarlo)
+	sessionId: number;
 	iat: number;
 	exp: number;
 }
 
+// Dispositivo desde el que se usa la sesión (se muestra en la lista de
+// dispositivos y distingue una carrera entre pestañas de un token copiado)
+export interface SessionClient {
+	userAgent: string | null;
+	ipAddress: string | null;
+}
+
+// Access token (JWT, cookie auth_token) y token de refresco (cookie refresh_token)
+export interface SessionTokens {
+	accessToken: string;
+	refreshToken: string;
+}
+
+export type RefreshResult =
+	| { status: "refreshed"; tokens: SessionTokens }
+	// Otra petición acaba de rotar este token: sus cookies ya son las buenas
+	| { status: "raced" }
+	// Token ya rotado usado de nuevo: se ha revocado la sesión entera
+	| { status: "reused" }
+	| { status: "invalid" };
+
+// Resultado de la transacción de rotación (el access token se firma después)
+type TokenRotation =
+	| RefreshResult
+	| { status: "rotated"; stored: RefreshTokenWithSession };
+
+type JwtSigner = { sign: (payload: object) => Promise<string> };
+
 export interface AuthContext {
 	user?: SessionData;
 	isAuthenticated: boolean;
 }
 
+// Vida del access token: corta, se renueva con el token de refresco (segundos)
+export const ACCESS_TOKEN_MAX_AGE = 15 * 60;
+
+// La sesión caduca tras 7 días sin usarse; cada renovación la alarga (segundos)
+export const REFRESH_TOKEN_MAX_AGE = 7 * 24 * 60 * 60;
+
+// Cookie del token de refresco: solo viaja a /app/auth (refresh y logout)
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+export const REFRESH_TOKEN_PATH = "/app/auth";
+
+// Plazo en el que reutilizar un token recién rotado desde el mismo cliente
+// se considera una carrera entre pestañas y no un token robado (ms)
+const REFRESH_REUSE_GRACE = 5 * 1000;
+
 // Configuración JWT
 export const jwtConfig = {
 	name: "jwt",
 	secret:
 		process.env.JWT_SECRET || "your-super-secret-jwt-key-change-in-production",
-	exp: "7d", // Token válido por 7 días
+	exp: "15m", // Igual que ACCESS_TOKEN_MAX_AGE
 };
 
 // Configuración de cookies
@@ -27,34 +82,206 @@ export const cookieConfig = {
 	httpOnly: true,
 	secure: process.env.NODE_ENV === "production",
 	sameSite: "lax" as const,
-	maxAge: 7 * 24 * 60 * 60, // 7 días en segundos
+	maxAge: ACCESS_TOKEN_MAX_AGE,
 	path: "/",
 };
 
-// Crear token JWT para un usuario
-export async function createSessionToken(
+// Cada cuánto se actualiza last_seen_at de una sesión en uso (ms)
+const SESSION_TOUCH_INTERVAL = 5 * 60 * 1000;
+
+// En la base de datos solo se guarda el hash del token de refresco
+function hashRefreshToken(refreshToken: string): string {
+	return createHash("sha256").update(refreshToken).digest("hex");
+}
+
+function getRefreshExpiry(): Date {
+	return new Date(Date.now() + REFRESH_TOKEN_MAX_AGE * 1000);
+}
+
+// Firmar un access token para la sesión con el jti indicado
+async function signAccessToken(
 	user: User,
-	jwt: { sign: (payload: object) => Promise<string> },
+	provider: string,
+	jti: string,
+	jwt: JwtSigner,
 ): Promise<string> {
-	const payload: Omit<SessionData, "iat" | "exp"> = {
+	const payload: Omit<SessionData, "iat" | "exp" | "sessionId"> = {
 		userId: user.id,
-		githubId: user.github_id,
+		provider,
 		username: user.username,
 		avatarUrl: user.avatar_url || undefined,
+		jti,
 	};
 
 	const token = await jwt.sign(payload);
 	return token;
 }
 
-// Verificar y extraer datos del token JWT
+// Registrar una sesión nueva para el usuario y emitir sus tokens
+export async function createSessionTokens(
+	user: User,
+	provider: string,
+	jwt: JwtSigner,
+	client: SessionClient,
+): Promise<SessionTokens> {
+	const jti = randomUUID();
+	const refreshToken = randomBytes(32).toString("base64url");
+
+	await withTransaction(async (sql): Promise<void> => {
+		const expiresAt = getRefreshExpiry();
+		const session = await sessionQueries.createSession(
+			{
+				jti,
+				userId: user.id,
+				provider,
+				userAgent: client.userAgent,
+				ipAddress: client.ipAddress,
+				expiresAt,
+			},
+			sql,
+		);
+		await refreshTokenQueries.createRefreshToken(
+			session.id,
+			hashRefreshToken(refreshToken),
+			expiresAt,
+			sql,
+		);
+	});
+
+	return {
+		accessToken: await signAccessToken(user, provider, jti, jwt),
+		refreshToken,
+	};
+}
+
+/**
+ * Rota el token de refresco: el presentado queda usado y se emiten un
+ * access token y un token de refresco nuevos. Si llega un token ya rotado
+ * (salvo una carrera entre pestañas: mismo cliente y unos segundos después)
+ * alguien lo ha copiado y se revoca la sesión, con lo que deja de valer
+ * también el último emitido
+ */
+export async function refreshSessionTokens(
+	refreshToken: string,
+	jwt: JwtSigner,
+	client: SessionClient,
+): Promise<RefreshResult> {
+	const nextRefreshToken = randomBytes(32).toString("base64url");
+
+	const rotation = await withTransaction(
+		async (sql): Promise<TokenRotation> => {
+			const stored = await refreshTokenQueries.getRefreshTokenForUpdate(
+				hashRefreshToken(refreshToken),
+				sql,
+			);
+			if (
+				!stored ||
+				stored.session_revoked_at ||
+				new Date(stored.expires_at).getTime() <= Date.now()
+			) {
+				return { status: "invalid" };
+			}
+
+			if (stored.used_at) {
+				const sameClient =
+					stored.user_agent === client.userAgent &&
+					stored.ip_address === client.ipAddress;
+				if (
+					sameClient &&
+					Date.now() - new Date(stored.used_at).getTime() < REFRESH_REUSE_GRACE
+				) {
+					return { status: "raced" };
+				}
+				await sessionQueries.revokeSession(
+					stored.user_id,
+					stored.session_id,
+					sql,
+				);
+				return { status: "reused" };
+			}
+
+			const expiresAt = getRefreshExpiry();
+			await refreshTokenQueries.markUsed(stored.id, stored.session_id, sql);
+			await refreshTokenQueries.createRefreshToken(
+				stored.session_id,
+				hashRefreshToken(nextRefreshToken),
+				expiresAt,
+				sql,
+			);
+			await sessionQueries.extendSession(
+				stored.session_id,
+				expiresAt,
+				client.ipAddress,
+				sql,
+			);
+			return { status: "rotated", stored };
+		},
+	);
+
+	if (rotation.status !== "rotated") {
+		return rotation;
+	}
+
+	// El access token lleva el nombre y avatar actuales del usuario
+	const user = await userQueries.getUserById(rotation.stored.user_id);
+	if (!user) {
+		return { status: "invalid" };
+	}
+
+	return {
+		status: "refreshed",
+		tokens: {
+			accessToken: await signAccessToken(
+				user,
+				rotation.stored.provider,
+				rotation.stored.jti,
+				jwt,
+			),
+			refreshToken: nextRefreshToken,
+		},
+	};
+}
+
+// Revocar la sesión de un token de refresco (logout con el access token caducado)
+export async function revokeRefreshTokenSession(
+	refreshToken: string,
+): Promise<void> {
+	await withTransaction(async (sql): Promise<void> => {
+		const stored = await refreshTokenQueries.getRefreshTokenForUpdate(
+			hashRefreshToken(refreshToken),
+			sql,
+		);
+		if (stored) {
+			await sessionQueries.revokeSession(
+				stored.user_id,
+				stored.session_id,
+				sql,
+			);
+		}
+	});
+}
+
+// Verificar el token JWT y que su sesión siga activa (no revocada ni caducada)
 export async function verifySessionToken(
 	token: string,
-	jwt: { verify: (token: string) => Promise<object> },
+	jwt: { verify: (token: string) => Promise<object | false> },
+	client: SessionClient,
 ): Promise<SessionData | null> {
 	try {
-		const payload = await jwt.verify(token);
-		return payload as SessionData;
+		const payload = (await jwt.verify(token)) as SessionData | false;
+		// Los tokens emitidos antes de las sesiones en servidor no llevan jti
+		if (!payload || typeof payload.jti !== "string") return null;
+
+		const session = await sessionQueries.getActiveSession(payload.jti);
+		if (!session || session.user_id !== payload.userId) return null;
+
+		if (
+			Date.now() - new Date(session.last_seen_at).getTime() >
+			SESSION_TOUCH_INTERVAL
+		) {
+			await sessionQueries.touchSession(session.id, client.ipAddress);
+		}
+		return { ...payload, sessionId: session.id };
 	} catch (_error) {
 		return null;
 	}
@@ -105,19 +105,18 @@ export async function executeStatement(
 	}
 }
 
-// Función para transacciones
+// Cliente SQL: la conexión del pool o una transacción en curso
+export type DbClient = postgres.Sql;
+
+// Fragmento SQL sin ejecutar para componer consultas
+export type SqlFragment = postgres.PendingQuery<postgres.Row[]>;
+
+// Función para transacciones: db.begin reserva una única conexión del pool,
+// por lo que todas las queries del callback deben usar el cliente recibido
 export async function withTransaction<T>(
-	callback: () => Promise<T>,
+	callback: (sql: postgres.TransactionSql) => Promise<T>,
 ): Promise<T> {
-	await db`BEGIN`;
-	try {
-		const result = await callback();
-		await db`COMMIT`;
-		return result;
-	} catch (error) {
-		await db`ROLLBACK`;
-		throw error;
-	}
+	return (await db.begin((sql) => callback(sql))) as T;
 }
 
 // Inicializar conexión
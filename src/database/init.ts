@@ -1,6 +1,6 @@
 import { testConnection } from "./database";
 import { runMigrations } from "./migrations";
-import { seedLanguages } from "./seeds";
+import { seedLanguageAliases, seedLanguages } from "./seeds";
 
 // Inicializar base de datos PostgreSQL completa
 export async function initDatabase() {
@@ -18,6 +18,7 @@ export async function initDatabase() {
 
 		// Poblar datos iniciales
 		await seedLanguages();
+		await seedLanguageAliases();
 
 		console.log("✅ PostgreSQL database initialization completed");
 	} catch (error) {
@@ -34,8 +35,19 @@ export async function resetDatabase() {
 		const { db } = await import("./database");
 
 		// Eliminar todas las tablas en orden correcto (respetando foreign keys)
+		await db`DROP TABLE IF EXISTS refresh_tokens CASCADE`;
+		await db`DROP TABLE IF EXISTS sessions CASCADE`;
+		await db`DROP TABLE IF EXISTS user_identities CASCADE`;
+		await db`DROP TABLE IF EXISTS language_revisions CASCADE`;
+		await db`DROP TABLE IF EXISTS language_suggestion_votes CASCADE`;
+		await db`DROP TABLE IF EXISTS language_suggestions CASCADE`;
+		await db`DROP TABLE IF EXISTS language_redirects CASCADE`;
+		await db`DROP TABLE IF EXISTS language_aliases CASCADE`;
+		await db`DROP TABLE IF EXISTS ranking_snapshots CASCADE`;
+		await db`DROP TABLE IF EXISTS voting_rules CASCADE`;
 		await db`DROP TABLE IF EXISTS votes CASCADE`;
 		await db`DROP TABLE IF EXISTS user_monthly_votes CASCADE`;
+		await db`DROP TABLE IF EXISTS voting_periods CASCADE`;
 		await db`DROP TABLE IF EXISTS users CASCADE`;
 		await db`DROP TABLE IF EXISTS languages CASCADE`;
 		await db`DROP TABLE IF EXISTS migrations CASCADE`;
@@ -1,5 +1,7 @@
 import { db } from "./database";
+import { dbUtils } from "./queries";
 import { createTables } from "./schema";
+import { seedLanguageTaxonomy } from "./seeds";
 
 // Tabla para tracking de migraciones en PostgreSQL
 async function createMigrationsTable() {
@@ -158,7 +160,820 @@ async function migration003_postgresql_optimizations() {
 	console.log("✅ Migration 003 completed");
 }
 
+// Migración 004 - Reglas de votación configurables por mes
+async function migration004_voting_rules() {
+	if (await isMigrationExecuted("004")) return;
+
+	console.log("🔄 Running migration 004: Database-driven voting rules");
+
+	// Los valores por defecto de las columnas son las reglas por defecto
+	await db`
+    CREATE TABLE IF NOT EXISTS voting_rules (
+      vote_month TEXT PRIMARY KEY, -- Formato: 'YYYY-MM'
+      points_budget INTEGER NOT NULL DEFAULT 10 CHECK (points_budget > 0),
+      max_points_per_language INTEGER NOT NULL DEFAULT 5 CHECK (max_points_per_language > 0),
+      min_increment INTEGER NOT NULL DEFAULT 1 CHECK (min_increment > 0),
+      max_increment INTEGER NOT NULL DEFAULT 5,
+      carry_over BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      CHECK (max_increment >= min_increment)
+    )
+  `;
+
+	await db`DROP TRIGGER IF EXISTS update_voting_rules_updated_at ON voting_rules`;
+	await db`
+    CREATE TRIGGER update_voting_rules_updated_at
+      BEFORE UPDATE ON voting_rules
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column()
+  `;
+
+	// El límite superior de puntos ahora lo definen las reglas del mes
+	await db`ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_points_check`;
+	await db`ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_points_positive`;
+	await db`ALTER TABLE votes ADD CONSTRAINT votes_points_positive CHECK (points >= 1)`;
+
+	await markMigrationExecuted("004", "Database-driven voting rules per month");
+	console.log("✅ Migration 004 completed");
+}
+
+// Migración 005 - Estrategias de puntuación por mes
+async function migration005_scoring_strategies() {
+	if (await isMigrationExecuted("005")) return;
+
+	console.log("🔄 Running migration 005: Pluggable scoring strategies");
+
+	await db`
+    ALTER TABLE voting_rules
+    ADD COLUMN IF NOT EXISTS scoring_strategy TEXT NOT NULL DEFAULT 'linear'
+    CHECK (scoring_strategy IN ('linear', 'quadratic', 'borda', 'approval'))
+  `;
+
+	// Puntuación de una fila de votos según la estrategia de su mes.
+	// En Borda, points es la posición en la papeleta (1 = primero) y
+	// ballot_size el número de posiciones (points_budget del mes)
+	await db`
+    CREATE OR REPLACE FUNCTION vote_score(strategy TEXT, points INTEGER, ballot_size INTEGER)
+    RETURNS INTEGER AS $$
+      SELECT CASE strategy
+        WHEN 'borda' THEN GREATEST(ballot_size + 1 - points, 0)
+        WHEN 'approval' THEN 1
+        ELSE points
+      END
+    $$ LANGUAGE sql IMMUTABLE
+  `;
+
+	// total_votes pasa a acumular la puntuación de cada mes con su estrategia
+	await db`
+    CREATE OR REPLACE FUNCTION update_language_total_votes()
+    RETURNS TRIGGER AS $$
+    DECLARE
+      target_language_id INTEGER;
+    BEGIN
+      IF TG_OP = 'DELETE' THEN
+        target_language_id := OLD.language_id;
+      ELSE
+        target_language_id := NEW.language_id;
+      END IF;
+
+      UPDATE languages
+      SET total_votes = (
+        SELECT COALESCE(SUM(vote_score(
+          COALESCE(r.scoring_strategy, 'linear'),
+          v.points,
+          COALESCE(r.points_budget, 10)
+        )), 0)
+        FROM votes v
+        LEFT JOIN voting_rules r ON r.vote_month = v.vote_month
+        WHERE v.language_id = target_language_id
+      )
+      WHERE id = target_language_id;
+
+      IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `;
+
+	await db`
+    UPDATE languages l
+    SET total_votes = (
+      SELECT COALESCE(SUM(vote_score(
+        COALESCE(r.scoring_strategy, 'linear'),
+        v.points,
+        COALESCE(r.points_budget, 10)
+      )), 0)
+      FROM votes v
+      LEFT JOIN voting_rules r ON r.vote_month = v.vote_month
+      WHERE v.language_id = l.id
+    )
+  `;
+
+	await markMigrationExecuted("005", "Pluggable scoring strategies per month");
+	console.log("✅ Migration 005 completed");
+}
+
 // Función para refrescar la vista materializada (debe ser llamada después de cambios significativos)
+// Migración 006 - Periodos de votación con apertura y cierre explícitos
+async function migration006_voting_periods() {
+	if (await isMigrationExecuted("006")) return;
+
+	console.log("🔄 Running migration 006: Voting periods");
+
+	await db`
+    CREATE TABLE IF NOT EXISTS voting_periods (
+      code TEXT PRIMARY KEY, -- Formato: 'YYYY-MM'
+      starts_at TIMESTAMPTZ NOT NULL,
+      ends_at TIMESTAMPTZ NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'open', 'closed', 'finalized')),
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      CHECK (ends_at > starts_at)
+    )
+  `;
+	await db`CREATE INDEX IF NOT EXISTS idx_voting_periods_status ON voting_periods (status, starts_at)`;
+
+	await db`DROP TRIGGER IF EXISTS update_voting_periods_updated_at ON voting_periods`;
+	await db`
+    CREATE TRIGGER update_voting_periods_updated_at
+      BEFORE UPDATE ON voting_periods
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column()
+  `;
+
+	// Crear un periodo por cada mes que ya tiene votos, con su estado según la fecha actual
+	const timezone = dbUtils.getVotingTimezone();
+	await db`
+    INSERT INTO voting_periods (code, starts_at, ends_at, timezone, status)
+    SELECT
+      months.code,
+      months.starts_at,
+      months.ends_at,
+      ${timezone},
+      CASE
+        WHEN months.ends_at <= NOW() THEN 'closed'
+        WHEN months.starts_at > NOW() THEN 'scheduled'
+        ELSE 'open'
+      END
+    FROM (
+      SELECT
+        code,
+        (code || '-01')::timestamp AT TIME ZONE ${timezone} as starts_at,
+        ((code || '-01')::timestamp + INTERVAL '1 month') AT TIME ZONE ${timezone} as ends_at
+      FROM (
+        SELECT vote_month as code FROM votes
+        UNION
+        SELECT vote_month as code FROM user_monthly_votes
+      ) codes
+    ) months
+    ON CONFLICT (code) DO NOTHING
+  `;
+
+	// vote_month pasa a ser una referencia al periodo
+	await db`ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_vote_month_fkey`;
+	await db`
+    ALTER TABLE votes
+    ADD CONSTRAINT votes_vote_month_fkey
+    FOREIGN KEY (vote_month) REFERENCES voting_periods (code) ON UPDATE CASCADE
+  `;
+	await db`ALTER TABLE user_monthly_votes DROP CONSTRAINT IF EXISTS user_monthly_votes_vote_month_fkey`;
+	await db`
+    ALTER TABLE user_monthly_votes
+    ADD CONSTRAINT user_monthly_votes_vote_month_fkey
+    FOREIGN KEY (vote_month) REFERENCES voting_periods (code) ON UPDATE CASCADE
+  `;
+
+	await markMigrationExecuted("006", "Voting periods referenced by votes");
+	console.log("✅ Migration 006 completed");
+}
+
+// Migración 007 - Snapshots inmutables del ranking al cerrar cada mes
+async function migration007_ranking_snapshots() {
+	if (await isMigrationExecuted("007")) return;
+
+	console.log("🔄 Running migration 007: Ranking snapshots");
+
+	// Sin FK a languages ni users: el histórico no cambia si se editan o borran.
+	// rank_change = previous_rank - rank (positivo = sube posiciones)
+	await db`
+    CREATE TABLE IF NOT EXISTS ranking_snapshots (
+      vote_month TEXT NOT NULL REFERENCES voting_periods (code),
+      language_id INTEGER NOT NULL,
+      language_name TEXT NOT NULL,
+      language_color TEXT,
+      rank INTEGER NOT NULL CHECK (rank > 0),
+      points INTEGER NOT NULL,
+      voters INTEGER NOT NULL,
+      previous_rank INTEGER,
+      rank_change INTEGER,
+      scoring_strategy TEXT NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      PRIMARY KEY (vote_month, language_id)
+    )
+  `;
+	await db`CREATE INDEX IF NOT EXISTS idx_ranking_snapshots_month_rank ON ranking_snapshots (vote_month, rank)`;
+
+	await db`
+    CREATE OR REPLACE FUNCTION prevent_ranking_snapshot_changes()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'ranking_snapshots rows are immutable';
+    END;
+    $$ LANGUAGE plpgsql
+  `;
+	await db`DROP TRIGGER IF EXISTS ranking_snapshots_immutable ON ranking_snapshots`;
+	await db`
+    CREATE TRIGGER ranking_snapshots_immutable
+      BEFORE UPDATE OR DELETE ON ranking_snapshots
+      FOR EACH ROW
+      EXECUTE FUNCTION prevent_ranking_snapshot_changes()
+  `;
+
+	await markMigrationExecuted("007", "Immutable end-of-month ranking snapshots");
+	console.log("✅ Migration 007 completed");
+}
+
+// Migración 008 - Algoritmos de ranking con empates y estimadores robustos
+async function migration008_ranking_algorithms() {
+	if (await isMigrationExecuted("008")) return;
+
+	console.log("🔄 Running migration 008: Ranking algorithms");
+
+	// Límite inferior del intervalo de Wilson (z = 1.96 → 95% de confianza)
+	await db`
+    CREATE OR REPLACE FUNCTION wilson_lower_bound(
+      successes DOUBLE PRECISION,
+      total DOUBLE PRECISION,
+      z DOUBLE PRECISION DEFAULT 1.96
+    )
+    RETURNS DOUBLE PRECISION AS $$
+      SELECT CASE
+        WHEN total <= 0 THEN 0
+        ELSE (
+          successes / total
+          + z * z / (2 * total)
+          - z * SQRT((successes / total * (1 - successes / total) + z * z / (4 * total)) / total)
+        ) / (1 + z * z / total)
+      END
+    $$ LANGUAGE sql IMMUTABLE
+  `;
+
+	// Algoritmo con el que se calcularon las posiciones de cada snapshot
+	await db`
+    ALTER TABLE ranking_snapshots
+    ADD COLUMN IF NOT EXISTS ranking_algorithm TEXT NOT NULL DEFAULT 'competition'
+  `;
+
+	await markMigrationExecuted("008", "Configurable ranking algorithms");
+	console.log("✅ Migration 008 completed");
+}
+
+// Migración 009 - Notificaciones de cambios en el ranking (LISTEN/NOTIFY)
+async function migration009_ranking_notifications() {
+	if (await isMigrationExecuted("009")) return;
+
+	console.log("🔄 Running migration 009: Ranking change notifications");
+
+	// Igual que en la migración 005, pero además publica en el canal ranking_changes
+	// el nuevo total del lenguaje y su variación. NOTIFY solo se entrega al hacer
+	// commit, así que los servidores escuchando solo ven votos confirmados
+	await db`
+    CREATE OR REPLACE FUNCTION update_language_total_votes()
+    RETURNS TRIGGER AS $$
+    DECLARE
+      target_language_id INTEGER;
+      target_month TEXT;
+      old_total INTEGER;
+      new_total INTEGER;
+    BEGIN
+      IF TG_OP = 'DELETE' THEN
+        target_language_id := OLD.language_id;
+        target_month := OLD.vote_month;
+      ELSE
+        target_language_id := NEW.language_id;
+        target_month := NEW.vote_month;
+      END IF;
+
+      SELECT total_votes INTO old_total FROM languages WHERE id = target_language_id;
+
+      UPDATE languages
+      SET total_votes = (
+        SELECT COALESCE(SUM(vote_score(
+          COALESCE(r.scoring_strategy, 'linear'),
+          v.points,
+          COALESCE(r.points_budget, 10)
+        )), 0)
+        FROM votes v
+        LEFT JOIN voting_rules r ON r.vote_month = v.vote_month
+        WHERE v.language_id = target_language_id
+      )
+      WHERE id = target_language_id
+      RETURNING total_votes INTO new_total;
+
+      PERFORM pg_notify('ranking_changes', json_build_object(
+        'language_id', target_language_id,
+        'vote_month', target_month,
+        'total_votes', new_total,
+        'delta', COALESCE(new_total, 0) - COALESCE(old_total, 0)
+      )::text);
+
+      IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `;
+
+	await markMigrationExecuted("009", "Ranking change notifications");
+	console.log("✅ Migration 009 completed");
+}
+
+// (Re)crea la vista materializada language_rankings con todos los lenguajes,
+// sus votantes históricos y la posición por total_votes. Las migraciones que
+// añadan columnas a languages deben volver a llamarla
+async function createLanguageRankingsView() {
+	await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
+	await db`
+    CREATE MATERIALIZED VIEW language_rankings AS
+    SELECT
+      l.id,
+      l.name,
+      l.description,
+      l.color,
+      l.logo_url,
+      l.is_featured,
+      l.total_votes,
+      l.created_at,
+      COALESCE(all_time_votes.voters, 0)::int as total_voters,
+      RANK() OVER (ORDER BY l.total_votes DESC)::int as rank
+    FROM languages l
+    LEFT JOIN (
+      SELECT language_id, COUNT(DISTINCT user_id) as voters
+      FROM votes
+      GROUP BY language_id
+    ) all_time_votes ON l.id = all_time_votes.language_id
+  `;
+
+	// REFRESH ... CONCURRENTLY necesita un índice único
+	await db`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_language_rankings_id
+    ON language_rankings (id)
+  `;
+}
+
+// Migración 010 - Servir el ranking actual desde la vista materializada
+async function migration010_language_rankings_view() {
+	if (await isMigrationExecuted("010")) return;
+
+	console.log("🔄 Running migration 010: Language rankings view");
+
+	// La vista de la migración 003 omitía los lenguajes sin votos y los votantes
+	await createLanguageRankingsView();
+
+	await markMigrationExecuted("010", "Language rankings view");
+	console.log("✅ Migration 010 completed");
+}
+
+// Vista language_rankings desde la migración 011: todas las columnas de
+// languages (para filtrar por ellas) y sus votantes históricos. l.* se
+// expande al crear la vista, así que las migraciones que añadan columnas a
+// languages deben volver a llamarla. No cambiar esta definición: una vista
+// distinta va en una función nueva de la migración que la introduzca
+async function createLanguageRankingsViewWithAllColumns() {
+	await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
+	await db`
+    CREATE MATERIALIZED VIEW language_rankings AS
+    SELECT
+      l.*,
+      COALESCE(all_time_votes.voters, 0)::int as total_voters
+    FROM languages l
+    LEFT JOIN (
+      SELECT language_id, COUNT(DISTINCT user_id) as voters
+      FROM votes
+      GROUP BY language_id
+    ) all_time_votes ON l.id = all_time_votes.language_id
+  `;
+
+	// REFRESH ... CONCURRENTLY necesita un índice único
+	await db`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_language_rankings_id
+    ON language_rankings (id)
+  `;
+}
+
+// Migración 011 - Etiquetas de lenguajes para filtrar los listados
+async function migration011_language_tags() {
+	if (await isMigrationExecuted("011")) return;
+
+	console.log("🔄 Running migration 011: Language tags");
+
+	await db`ALTER TABLE languages ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}'`;
+	await db`CREATE INDEX IF NOT EXISTS idx_languages_tags ON languages USING GIN (tags)`;
+
+	// La vista pasa a incluir todas las columnas, también la nueva
+	await createLanguageRankingsViewWithAllColumns();
+
+	await markMigrationExecuted("011", "Language tags");
+	console.log("✅ Migration 011 completed");
+}
+
+// Migración 012 - Búsqueda aproximada de lenguajes (pg_trgm) y alias
+async function migration012_language_search() {
+	if (await isMigrationExecuted("012")) return;
+
+	console.log("🔄 Running migration 012: Language search and aliases");
+
+	await db`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
+
+	// Nombres alternativos con los que se puede encontrar un lenguaje ("ts", "golang")
+	await db`
+    CREATE TABLE IF NOT EXISTS language_aliases (
+      id SERIAL PRIMARY KEY,
+      language_id INTEGER NOT NULL REFERENCES languages(id) ON DELETE CASCADE,
+      alias TEXT NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `;
+
+	// Un alias solo puede apuntar a un lenguaje, sin distinguir mayúsculas
+	await db`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_language_aliases_alias
+    ON language_aliases (lower(alias))
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_language_aliases_language
+    ON language_aliases (language_id)
+  `;
+
+	// Índices de trigramas para las búsquedas por similitud
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_languages_name_trgm
+    ON languages USING GIN (lower(name) gin_trgm_ops)
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_language_aliases_alias_trgm
+    ON language_aliases USING GIN (lower(alias) gin_trgm_ops)
+  `;
+
+	await markMigrationExecuted("012", "Language search and aliases");
+	console.log("✅ Migration 012 completed");
+}
+
+// Migración 013 - Redirecciones de lenguajes fusionados
+async function migration013_language_redirects() {
+	if (await isMigrationExecuted("013")) return;
+
+	console.log("🔄 Running migration 013: Language redirects");
+
+	// Al fusionar un lenguaje duplicado su id sigue resolviendo al lenguaje destino
+	await db`
+    CREATE TABLE IF NOT EXISTS language_redirects (
+      old_language_id INTEGER PRIMARY KEY,
+      language_id INTEGER NOT NULL REFERENCES languages(id) ON DELETE CASCADE,
+      old_name TEXT NOT NULL,
+      merged_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_language_redirects_language
+    ON language_redirects (language_id)
+  `;
+
+	await markMigrationExecuted("013", "Language redirects");
+	console.log("✅ Migration 013 completed");
+}
+
+// Migración 014 - Archivado de lenguajes y nombres únicos sin distinguir mayúsculas
+async function migration014_language_archive() {
+	if (await isMigrationExecuted("014")) return;
+
+	console.log("🔄 Running migration 014: Language archive");
+
+	// Un lenguaje archivado no admite votos pero conserva su historial
+	await db`ALTER TABLE languages ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ`;
+	await db`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_languages_name_lower
+    ON languages (lower(name))
+  `;
+
+	await createLanguageRankingsViewWithAllColumns();
+
+	await markMigrationExecuted("014", "Language archive");
+	console.log("✅ Migration 014 completed");
+}
+
+// Migración 015 - Sugerencias de lenguajes de la comunidad
+async function migration015_language_suggestions() {
+	if (await isMigrationExecuted("015")) return;
+
+	console.log("🔄 Running migration 015: Language suggestions");
+
+	await db`
+    CREATE TABLE IF NOT EXISTS language_suggestions (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(50) NOT NULL,
+      description TEXT,
+      homepage VARCHAR(255),
+      suggested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      status VARCHAR(10) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected')),
+      rejection_reason TEXT,
+      language_id INTEGER REFERENCES languages(id) ON DELETE SET NULL,
+      reviewed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `;
+	// Solo puede haber una sugerencia pendiente por nombre
+	await db`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_language_suggestions_pending_name
+    ON language_suggestions (lower(name))
+    WHERE status = 'pending'
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_language_suggestions_status
+    ON language_suggestions (status, created_at)
+  `;
+
+	// Un apoyo por usuario y sugerencia
+	await db`
+    CREATE TABLE IF NOT EXISTS language_suggestion_votes (
+      suggestion_id INTEGER NOT NULL REFERENCES language_suggestions(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      PRIMARY KEY (suggestion_id, user_id)
+    )
+  `;
+
+	await markMigrationExecuted("015", "Language suggestions");
+	console.log("✅ Migration 015 completed");
+}
+
+// Migración 016 - Revisiones de descripción y color de los lenguajes
+async function migration016_language_revisions() {
+	if (await isMigrationExecuted("016")) return;
+
+	console.log("🔄 Running migration 016: Language revisions");
+
+	// diff guarda cada campo cambiado como { from, to };
+	// rollback_of apunta a la revisión cuyo estado se restauró
+	await db`
+    CREATE TABLE IF NOT EXISTS language_revisions (
+      id SERIAL PRIMARY KEY,
+      language_id INTEGER NOT NULL REFERENCES languages(id) ON DELETE CASCADE,
+      author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      status VARCHAR(10) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'applied', 'rejected')),
+      diff JSONB NOT NULL,
+      comment TEXT,
+      rejection_reason TEXT,
+      rollback_of INTEGER REFERENCES language_revisions(id) ON DELETE SET NULL,
+      reviewed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_language_revisions_language
+    ON language_revisions (language_id, id)
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_language_revisions_pending
+    ON language_revisions (created_at)
+    WHERE status = 'pending'
+  `;
+
+	await markMigrationExecuted("016", "Language revisions");
+	console.log("✅ Migration 016 completed");
+}
+
+// Migración 017 - Taxonomía de lenguajes: paradigmas, tipado, año y familia
+async function migration017_language_taxonomy() {
+	if (await isMigrationExecuted("017")) return;
+
+	console.log("🔄 Running migration 017: Language taxonomy");
+
+	await db`ALTER TABLE languages ADD COLUMN IF NOT EXISTS paradigms TEXT[] NOT NULL DEFAULT '{}'`;
+	await db`
+    ALTER TABLE languages ADD COLUMN IF NOT EXISTS typing VARCHAR(10)
+    CHECK (typing IN ('static', 'dynamic', 'gradual'))
+  `;
+	await db`
+    ALTER TABLE languages ADD COLUMN IF NOT EXISTS first_release_year SMALLINT
+    CHECK (first_release_year BETWEEN 1940 AND 2100)
+  `;
+	// family agrupa ecosistemas (JVM, BEAM, .NET...); parent_id enlaza
+	// dialectos y superconjuntos con su lenguaje de origen (TypeScript → JavaScript)
+	await db`ALTER TABLE languages ADD COLUMN IF NOT EXISTS family VARCHAR(50)`;
+	await db`
+    ALTER TABLE languages ADD COLUMN IF NOT EXISTS parent_id INTEGER
+    REFERENCES languages(id) ON DELETE SET NULL
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_languages_paradigms
+    ON languages USING GIN (paradigms)
+  `;
+	await db`CREATE INDEX IF NOT EXISTS idx_languages_family ON languages (family)`;
+	await db`CREATE INDEX IF NOT EXISTS idx_languages_parent ON languages (parent_id)`;
+
+	await createLanguageRankingsViewWithAllColumns();
+
+	await markMigrationExecuted("017", "Language taxonomy");
+	console.log("✅ Migration 017 completed");
+}
+
+// Migración 018 - Identidades de varios proveedores en lugar de users.github_id
+async function migration018_user_identities() {
+	if (await isMigrationExecuted("018")) return;
+
+	console.log("🔄 Running migration 018: User identities");
+
+	// subject es el identificador estable del usuario en el proveedor
+	// (id numérico de GitHub/GitLab, claim "sub" en OIDC)
+	await db`
+    CREATE TABLE IF NOT EXISTS user_identities (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      provider VARCHAR(20) NOT NULL,
+      subject TEXT NOT NULL,
+      username TEXT NOT NULL,
+      email TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      last_login_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (provider, subject)
+    )
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_user_identities_user
+    ON user_identities (user_id)
+  `;
+
+	// Las cuentas existentes conservan su login de GitHub
+	const hasGithubId = await db`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'github_id'
+  `;
+	if (hasGithubId.length > 0) {
+		await db`
+      INSERT INTO user_identities (user_id, provider, subject, username, created_at)
+      SELECT id, 'github', github_id::text, username, created_at FROM users
+      ON CONFLICT (provider, subject) DO NOTHING
+    `;
+		await db`ALTER TABLE users DROP COLUMN github_id`;
+	}
+
+	await markMigrationExecuted("018", "User identities");
+	console.log("✅ Migration 018 completed");
+}
+
+// Migración 019 - Fusión de cuentas duplicadas
+async function migration019_account_merges() {
+	if (await isMigrationExecuted("019")) return;
+
+	console.log("🔄 Running migration 019: Account merges");
+
+	// La cuenta fusionada se conserva con sus votos de meses anteriores
+	await db`
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS merged_into INTEGER
+    REFERENCES users(id) ON DELETE SET NULL
+  `;
+	await db`ALTER TABLE users ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ`;
+
+	await markMigrationExecuted("019", "Account merges");
+	console.log("✅ Migration 019 completed");
+}
+
+// Migración 020 - Sesiones en servidor (revocables)
+async function migration020_sessions() {
+	if (await isMigrationExecuted("020")) return;
+
+	console.log("🔄 Running migration 020: Sessions");
+
+	// Cada JWT lleva el jti de su fila; una sesión revocada o caducada
+	// deja de ser válida aunque la firma del token lo siga siendo
+	await db`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id SERIAL PRIMARY KEY,
+      jti UUID NOT NULL UNIQUE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      provider VARCHAR(20) NOT NULL,
+      user_agent TEXT,
+      ip_address TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+      expires_at TIMESTAMPTZ NOT NULL,
+      revoked_at TIMESTAMPTZ
+    )
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_sessions_user
+    ON sessions (user_id, expires_at)
+  `;
+
+	await markMigrationExecuted("020", "Sessions");
+	console.log("✅ Migration 020 completed");
+}
+
+// Migración 021 - Tokens de refresco rotatorios
+async function migration021_refresh_tokens() {
+	if (await isMigrationExecuted("021")) return;
+
+	console.log("🔄 Running migration 021: Refresh tokens");
+
+	// Todos los tokens de una sesión forman una familia: cada uno se usa una
+	// sola vez y reutilizar uno ya rotado revoca la sesión entera.
+	// Solo se guarda el hash SHA-256 del token
+	await db`
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id SERIAL PRIMARY KEY,
+      session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      expires_at TIMESTAMPTZ NOT NULL,
+      used_at TIMESTAMPTZ
+    )
+  `;
+	await db`
+    CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session
+    ON refresh_tokens (session_id)
+  `;
+
+	await markMigrationExecuted("021", "Refresh tokens");
+	console.log("✅ Migration 021 completed");
+}
+
+// Migración 022 - Historial de revisiones de lenguajes fusionados
+async function migration022_merged_revisions() {
+	if (await isMigrationExecuted("022")) return;
+
+	console.log("🔄 Running migration 022: Merged language revisions");
+
+	// Las revisiones del duplicado pasan al lenguaje destino marcadas con el
+	// nombre de origen: se listan en su historial pero no cuentan para volver atrás
+	await db`
+    ALTER TABLE language_revisions
+    ADD COLUMN IF NOT EXISTS merged_from VARCHAR(50)
+  `;
+
+	await markMigrationExecuted("022", "Merged language revisions");
+	console.log("✅ Migration 022 completed");
+}
+
+// Migración 023 - Página web de los lenguajes
+async function migration023_language_homepage() {
+	if (await isMigrationExecuted("023")) return;
+
+	console.log("🔄 Running migration 023: Language homepage");
+
+	// Las sugerencias aprobadas conservan la página web que indicó el usuario
+	await db`ALTER TABLE languages ADD COLUMN IF NOT EXISTS homepage VARCHAR(255)`;
+	await db`
+    UPDATE languages l SET homepage = s.homepage
+    FROM language_suggestions s
+    WHERE s.language_id = l.id AND s.status = 'approved'
+      AND s.homepage IS NOT NULL AND l.homepage IS NULL
+  `;
+
+	await createLanguageRankingsViewWithAllColumns();
+
+	await markMigrationExecuted("023", "Language homepage");
+	console.log("✅ Migration 023 completed");
+}
+
+// Migración 024 - Taxonomía inicial de los lenguajes ya existentes
+async function migration024_language_taxonomy_data() {
+	if (await isMigrationExecuted("024")) return;
+
+	console.log("🔄 Running migration 024: Language taxonomy data");
+
+	// Solo una vez: si un admin vacía después la taxonomía, no se vuelve a
+	// rellenar. Los lenguajes que siembre el arranque la reciben al crearse
+	await seedLanguageTaxonomy();
+
+	await markMigrationExecuted("024", "Language taxonomy data");
+	console.log("✅ Migration 024 completed");
+}
+
+// Migración 025 - Diffs de revisiones guardados como texto JSON
+async function migration025_revision_diffs() {
+	if (await isMigrationExecuted("025")) return;
+
+	console.log("🔄 Running migration 025: Revision diffs");
+
+	// Se insertaban ya serializados y quedaban como una cadena JSONB
+	await db`
+    UPDATE language_revisions SET diff = (diff #>> '{}')::jsonb
+    WHERE jsonb_typeof(diff) = 'string'
+  `;
+
+	await markMigrationExecuted("025", "Revision diffs");
+	console.log("✅ Migration 025 completed");
+}
+
 export async function refreshLanguageRankings() {
 	try {
 		await db`REFRESH MATERIALIZED VIEW CONCURRENTLY language_rankings`;
@@ -178,6 +993,28 @@ export async function runMigrations() {
 	await migration001_initial();
 	await migration002_cumulative_voting();
 	await migration003_postgresql_optimizations();
+	await migration004_voting_rules();
+	await migration005_scoring_strategies();
+	await migration006_voting_periods();
+	await migration007_ranking_snapshots();
+	await migration008_ranking_algorithms();
+	await migration009_ranking_notifications();
+	await migration010_language_rankings_view();
+	await migration011_language_tags();
+	await migration012_language_search();
+	await migration013_language_redirects();
+	await migration014_language_archive();
+	await migration015_language_suggestions();
+	await migration016_language_revisions();
+	await migration017_language_taxonomy();
+	await migration018_user_identities();
+	await migration019_account_merges();
+	await migration020_sessions();
+	await migration021_refresh_tokens();
+	await migration022_merged_revisions();
+	await migration023_language_homepage();
+	await migration024_language_taxonomy_data();
+	await migration025_revision_diffs();
 
 	console.log("✅ All PostgreSQL migrations completed");
 }
@@ -204,6 +1041,190 @@ export async function rollbackMigration(version: string) {
 	try {
 		// Implementar rollback específico por versión
 		switch (version) {
+			case "025":
+				// Migración de datos: los diffs corregidos siguen siendo válidos
+				break;
+			case "024":
+				// Migración de datos: la taxonomía se conserva (pudo editarse después)
+				break;
+			case "023":
+				await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
+				await db`ALTER TABLE languages DROP COLUMN IF EXISTS homepage`;
+				await createLanguageRankingsViewWithAllColumns();
+				break;
+			case "022":
+				await db`
+          ALTER TABLE language_revisions DROP COLUMN IF EXISTS merged_from
+        `;
+				break;
+			case "021":
+				await db`DROP TABLE IF EXISTS refresh_tokens CASCADE`;
+				break;
+			case "020":
+				await db`DROP TABLE IF EXISTS sessions CASCADE`;
+				break;
+			case "019":
+				await db`
+          ALTER TABLE users
+          DROP COLUMN IF EXISTS merged_at,
+          DROP COLUMN IF EXISTS merged_into
+        `;
+				break;
+			case "018":
+				// Solo se recupera el id de GitHub: las cuentas sin identidad de
+				// GitHub se quedan con github_id NULL (no podrán iniciar sesión)
+				await db`ALTER TABLE users ADD COLUMN IF NOT EXISTS github_id BIGINT UNIQUE`;
+				await db`
+          UPDATE users u SET github_id = i.subject::bigint
+          FROM user_identities i
+          WHERE i.user_id = u.id AND i.provider = 'github'
+        `;
+				await db`DROP TABLE IF EXISTS user_identities CASCADE`;
+				break;
+			case "017":
+				await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
+				await db`
+          ALTER TABLE languages
+          DROP COLUMN IF EXISTS parent_id,
+          DROP COLUMN IF EXISTS family,
+          DROP COLUMN IF EXISTS first_release_year,
+          DROP COLUMN IF EXISTS typing,
+          DROP COLUMN IF EXISTS paradigms
+        `;
+				await createLanguageRankingsViewWithAllColumns();
+				break;
+			case "016":
+				await db`DROP TABLE IF EXISTS language_revisions CASCADE`;
+				break;
+			case "015":
+				await db`DROP TABLE IF EXISTS language_suggestion_votes CASCADE`;
+				await db`DROP TABLE IF EXISTS language_suggestions CASCADE`;
+				break;
+			case "014":
+				await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
+				await db`DROP INDEX IF EXISTS idx_languages_name_lower`;
+				await db`ALTER TABLE languages DROP COLUMN IF EXISTS archived_at`;
+				await createLanguageRankingsViewWithAllColumns();
+				break;
+			case "013":
+				await db`DROP TABLE IF EXISTS language_redirects CASCADE`;
+				break;
+			case "012":
+				await db`DROP TABLE IF EXISTS language_aliases CASCADE`;
+				await db`DROP INDEX IF EXISTS idx_languages_name_trgm`;
+				break;
+			case "011":
+				await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
+				await db`ALTER TABLE languages DROP COLUMN IF EXISTS tags`;
+				// Volver a la vista de la migración 010
+				await createLanguageRankingsView();
+				break;
+			case "010":
+				// Volver a la vista de la migración 003
+				await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
+				await db`
+          CREATE MATERIALIZED VIEW language_rankings AS
+          SELECT
+            l.id,
+            l.name,
+            l.description,
+            l.color,
+            l.logo_url,
+            l.is_featured,
+            l.total_votes,
+            l.created_at,
+            ROW_NUMBER() OVER (ORDER BY l.total_votes DESC, l.name ASC) as rank
+          FROM languages l
+          WHERE l.total_votes > 0
+          ORDER BY l.total_votes DESC, l.name ASC
+        `;
+				await db`CREATE UNIQUE INDEX IF NOT EXISTS idx_language_rankings_id ON language_rankings (id)`;
+				break;
+			case "009":
+				// Volver a la versión de la migración 005, sin pg_notify
+				await db`
+          CREATE OR REPLACE FUNCTION update_language_total_votes()
+          RETURNS TRIGGER AS $$
+          DECLARE
+            target_language_id INTEGER;
+          BEGIN
+            IF TG_OP = 'DELETE' THEN
+              target_language_id := OLD.language_id;
+            ELSE
+              target_language_id := NEW.language_id;
+            END IF;
+
+            UPDATE languages
+            SET total_votes = (
+              SELECT COALESCE(SUM(vote_score(
+                COALESCE(r.scoring_strategy, 'linear'),
+                v.points,
+                COALESCE(r.points_budget, 10)
+              )), 0)
+              FROM votes v
+              LEFT JOIN voting_rules r ON r.vote_month = v.vote_month
+              WHERE v.language_id = target_language_id
+            )
+            WHERE id = target_language_id;
+
+            IF TG_OP = 'DELETE' THEN
+              RETURN OLD;
+            END IF;
+            RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql
+        `;
+				break;
+			case "008":
+				await db`ALTER TABLE ranking_snapshots DROP COLUMN IF EXISTS ranking_algorithm`;
+				await db`DROP FUNCTION IF EXISTS wilson_lower_bound(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION)`;
+				break;
+			case "007":
+				// Los snapshots finalizados vuelven a estado closed
+				await db`DROP TABLE IF EXISTS ranking_snapshots CASCADE`;
+				await db`DROP FUNCTION IF EXISTS prevent_ranking_snapshot_changes()`;
+				await db`UPDATE voting_periods SET status = 'closed' WHERE status = 'finalized'`;
+				break;
+			case "006":
+				await db`ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_vote_month_fkey`;
+				await db`ALTER TABLE user_monthly_votes DROP CONSTRAINT IF EXISTS user_monthly_votes_vote_month_fkey`;
+				await db`DROP TABLE IF EXISTS voting_periods CASCADE`;
+				break;
+			case "005":
+				// Volver a la suma lineal de puntos antes de eliminar vote_score
+				await db`
+          CREATE OR REPLACE FUNCTION update_language_total_votes()
+          RETURNS TRIGGER AS $$
+          DECLARE
+            target_language_id INTEGER;
+          BEGIN
+            IF TG_OP = 'DELETE' THEN
+              target_language_id := OLD.language_id;
+            ELSE
+              target_language_id := NEW.language_id;
+            END IF;
+
+            UPDATE languages
+            SET total_votes = (
+              SELECT COALESCE(SUM(points), 0) FROM votes WHERE language_id = target_language_id
+            )
+            WHERE id = target_language_id;
+
+            IF TG_OP = 'DELETE' THEN
+              RETURN OLD;
+            END IF;
+            RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql
+        `;
+				await db`ALTER TABLE voting_rules DROP COLUMN IF EXISTS scoring_strategy`;
+				await db`DROP FUNCTION IF EXISTS vote_score(TEXT, INTEGER, INTEGER)`;
+				break;
+			case "004":
+				await db`DROP TABLE IF EXISTS voting_rules CASCADE`;
+				await db`ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_points_positive`;
+				await db`ALTER TABLE votes ADD CONSTRAINT votes_points_check CHECK (points >= 1 AND points <= 5)`;
+				break;
 			case "003":
 				await db`DROP MATERIALIZED VIEW IF EXISTS language_rankings`;
 				await db`DROP INDEX IF EXISTS idx_languages_featured_true`;
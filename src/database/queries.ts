@@ -1,4 +1,5 @@
 import { db } from "./database";
+import type { DbClient, SqlFragment } from "./database";
 
 // Interfaces para tipos de datos
 export interface Language {
@@ -8,13 +9,157 @@ export interface Language {
 	color: string;
 	is_featured: boolean;
 	total_votes: number;
+	tags: string[];
+	archived_at: Date | null;
+	paradigms: string[];
+	typing: LanguageTyping | null;
+	first_release_year: number | null;
+	// Ecosistema al que pertenece (JVM, BEAM, .NET...)
+	family: string | null;
+	// Lenguaje del que deriva (TypeScript → JavaScript)
+	parent_id: number | null;
+	homepage: string | null;
+}
+
+export type LanguageTyping = "static" | "dynamic" | "gradual";
+
+export interface LanguageSearchResult
+	extends Pick<
+		Language,
+		"id" | "name" | "description" | "color" | "is_featured" | "total_votes"
+	> {
+	// Alias que ha coincidido (null si coincidió el nombre)
+	matched_alias: string | null;
+	score: number;
+}
+
+// Campos editables de un lenguaje
+export interface LanguageInput {
+	name: string;
+	description?: string | null;
+	color?: string;
+	logo_url?: string | null;
+	homepage?: string | null;
+	is_featured?: boolean;
+	tags?: string[];
+	paradigms?: string[];
+	typing?: LanguageTyping | null;
+	first_release_year?: number | null;
+	family?: string | null;
+	parent_id?: number | null;
+}
+
+export type SuggestionStatus = "pending" | "approved" | "rejected";
+
+export interface LanguageSuggestion {
+	id: number;
+	name: string;
+	description: string | null;
+	homepage: string | null;
+	suggested_by: number | null;
+	status: SuggestionStatus;
+	rejection_reason: string | null;
+	language_id: number | null;
+	reviewed_at: Date | null;
+	created_at: Date;
+}
+
+// Sugerencia con sus apoyos, tal como se lista
+export interface LanguageSuggestionSummary extends LanguageSuggestion {
+	suggested_by_username: string | null;
+	upvotes: number;
+	has_upvoted: boolean;
+}
+
+// Campos de un lenguaje que la comunidad puede editar mediante revisiones
+export type RevisionField = "description" | "color";
+
+export type RevisionDiff = Partial<
+	Record<RevisionField, { from: string | null; to: string | null }>
+>;
+
+export type RevisionStatus = "pending" | "applied" | "rejected";
+
+export interface LanguageRevision {
+	id: number;
+	language_id: number;
+	author_id: number | null;
+	status: RevisionStatus;
+	diff: RevisionDiff;
+	comment: string | null;
+	rejection_reason: string | null;
+	rollback_of: number | null;
+	// Nombre del lenguaje fusionado del que procede la revisión
+	merged_from: string | null;
+	reviewed_at: Date | null;
+	created_at: Date;
+}
+
+// Revisión con el autor y el lenguaje, tal como se lista
+export interface LanguageRevisionSummary extends LanguageRevision {
+	author_username: string | null;
+	language_name: string;
+}
+
+export interface LanguageAlias {
+	id: number;
+	language_id: number;
+	alias: string;
+	created_at: Date;
 }
 
 export interface User {
 	id: number;
-	github_id: number;
 	username: string;
 	avatar_url?: string;
+	// Cuenta en la que se fusionó esta (ya no puede iniciar sesión)
+	merged_into?: number | null;
+}
+
+// Cuenta de un proveedor de identidad (GitHub, GitLab, OIDC...) enlazada a un usuario
+export interface UserIdentity {
+	id: number;
+	user_id: number;
+	provider: string;
+	subject: string;
+	username: string;
+	email: string | null;
+	created_at: Date;
+	last_login_at: Date;
+}
+
+// Sesión iniciada en un dispositivo (una por JWT emitido)
+export interface UserSession {
+	id: number;
+	jti: string;
+	user_id: number;
+	provider: string;
+	user_agent: string | null;
+	ip_address: string | null;
+	created_at: Date;
+	last_seen_at: Date;
+	expires_at: Date;
+	revoked_at: Date | null;
+}
+
+// Token de refresco de una sesión (solo se guarda su hash)
+export interface RefreshToken {
+	id: number;
+	session_id: number;
+	token_hash: string;
+	created_at: Date;
+	expires_at: Date;
+	used_at: Date | null;
+}
+
+export interface RefreshTokenWithSession extends RefreshToken {
+	jti: string;
+	user_id: number;
+	provider: string;
+	// Cliente que usó la sesión por última vez
+	user_agent: string | null;
+	ip_address: string | null;
+	session_revoked_at: Date | null;
 }
 
 export interface Vote {
@@ -25,46 +170,154 @@ export interface Vote {
 	vote_month: string;
 }
 
+export type ScoringStrategyName = "linear" | "quadratic" | "borda" | "approval";
+
+export interface VotingRules {
+	vote_month: string;
+	scoring_strategy: ScoringStrategyName;
+	points_budget: number;
+	max_points_per_language: number;
+	min_increment: number;
+	max_increment: number;
+	carry_over: boolean;
+}
+
+export type RankingAlgorithm = "competition" | "dense" | "bayesian" | "wilson";
+
+export type VotingPeriodStatus = "scheduled" | "open" | "closed" | "finalized";
+
+export interface VotingPeriod {
+	code: string;
+	starts_at: Date;
+	ends_at: Date;
+	timezone: string;
+	status: VotingPeriodStatus;
+}
+
+export interface RankingSnapshotEntry {
+	vote_month: string;
+	language_id: number;
+	language_name: string;
+	language_color: string | null;
+	rank: number;
+	points: number;
+	voters: number;
+	previous_rank: number | null;
+	rank_change: number | null;
+	scoring_strategy: ScoringStrategyName;
+	ranking_algorithm: RankingAlgorithm;
+}
+
+// Zona horaria en la que empiezan y terminan los periodos de votación
+const votingTimezone = process.env.VOTING_TIMEZONE || "UTC";
+
 // Consultas para lenguajes
 export const languageQueries = {
-	// Obtener todos los lenguajes ordenados por ranking dinámico
+	// Obtener todos los lenguajes activos ordenados por ranking dinámico
 	async getAllLanguagesRanked(): Promise<Language[]> {
 		const result = await db`
       SELECT * FROM languages 
+      WHERE archived_at IS NULL
       ORDER BY total_votes DESC, name ASC
     `;
 		return result as unknown as Language[];
 	},
 
-	// Obtener top N lenguajes (dinámico)
+	// Obtener top N lenguajes activos (dinámico)
 	async getTopLanguages(limit: number = 20): Promise<Language[]> {
 		const result = await db`
       SELECT * FROM languages 
+      WHERE archived_at IS NULL
       ORDER BY total_votes DESC, name ASC
       LIMIT ${limit}
     `;
 		return result as unknown as Language[];
 	},
 
-	// Obtener lenguajes desde una posición específica
-	async getLanguagesFromPosition(
-		offset: number,
-		limit: number = 35,
-	): Promise<Language[]> {
-		const result = await db`
-      SELECT * FROM languages 
-      ORDER BY total_votes DESC, name ASC
-      LIMIT ${limit} OFFSET ${offset}
-    `;
-		return result as unknown as Language[];
-	},
-
 	// Obtener un lenguaje por ID
 	async getLanguageById(id: number): Promise<Language | null> {
 		const result = await db`SELECT * FROM languages WHERE id = ${id}`;
 		return result.length > 0 ? (result[0] as Language) : null;
 	},
 
+	// Búsqueda aproximada por nombre y alias. Puntuación: coincidencia exacta 1,
+	// prefijo 0.9, subcadena 0.7 y, si no, similitud de trigramas (pg_trgm)
+	async searchLanguages(
+		query: string,
+		limit: number = 10,
+	): Promise<LanguageSearchResult[]> {
+		const term = query.trim().toLowerCase();
+		const escaped = term.replace(/[\\%_]/g, "\\$&");
+
+		const result = await db`
+      WITH terms AS (
+        SELECT id as language_id, NULL::text as alias, lower(name) as term
+        FROM languages
+        UNION ALL
+        SELECT language_id, alias, lower(alias) as term
+        FROM language_aliases
+      ),
+      matches AS (
+        SELECT
+          language_id,
+          alias,
+          CASE
+            WHEN term = ${term} THEN 1
+            WHEN term LIKE ${`${escaped}%`} THEN 0.9
+            WHEN term LIKE ${`%${escaped}%`} THEN 0.7
+            ELSE GREATEST(similarity(term, ${term}), word_similarity(${term}, term))
+          END as score
+        FROM terms
+        WHERE term LIKE ${`%${escaped}%`} OR term % ${term} OR ${term} <% term
+      ),
+      best AS (
+        SELECT DISTINCT ON (language_id) language_id, alias, score
+        FROM matches
+        ORDER BY language_id, score DESC, alias NULLS FIRST
+      )
+      SELECT
+        l.id,
+        l.name,
+        l.description,
+        l.color,
+        l.is_featured,
+        l.total_votes,
+        best.alias as matched_alias,
+        ROUND(best.score::numeric, 3)::float8 as score
+      FROM best
+      JOIN languages l ON l.id = best.language_id
+      WHERE l.archived_at IS NULL
+      ORDER BY best.score DESC, l.total_votes DESC, l.name ASC
+      LIMIT ${limit}
+    `;
+		return result as unknown as LanguageSearchResult[];
+	},
+
+	// IDs archivados de una lista (no admiten votos)
+	async getArchivedLanguageIds(
+		ids: number[],
+		sql: DbClient = db,
+	): Promise<number[]> {
+		if (ids.length === 0) return [];
+
+		const result = await sql`
+      SELECT id FROM languages
+      WHERE id IN ${sql(ids)} AND archived_at IS NOT NULL
+    `;
+		return result.map((row) => row.id as number);
+	},
+
+	// Filtrar una lista de IDs dejando solo los lenguajes existentes
+	async getExistingLanguageIds(
+		ids: number[],
+		sql: DbClient = db,
+	): Promise<number[]> {
+		if (ids.length === 0) return [];
+
+		const result = await sql`SELECT id FROM languages WHERE id IN ${sql(ids)}`;
+		return result.map((row) => row.id as number);
+	},
+
 	// Obtener todos los lenguajes
 	async getAllLanguages(): Promise<Language[]> {
 		const result = await db`
@@ -74,17 +327,26 @@ export const languageQueries = {
 		return result as unknown as Language[];
 	},
 
-	// Actualizar total de votos de un lenguaje (ya se hace automáticamente con trigger)
-	async updateLanguageVotes(languageId: number): Promise<number> {
-		const result = await db`
-      SELECT COALESCE(SUM(points), 0) as total 
-      FROM votes 
-      WHERE language_id = ${languageId}
+	// Actualizar total de votos de un lenguaje (ya se hace automáticamente con trigger),
+	// puntuando cada voto según la estrategia de su mes como el trigger
+	async updateLanguageVotes(
+		languageId: number,
+		sql: DbClient = db,
+	): Promise<number> {
+		const result = await sql`
+      SELECT COALESCE(SUM(vote_score(
+        COALESCE(r.scoring_strategy, 'linear'),
+        v.points,
+        COALESCE(r.points_budget, 10)
+      )), 0) as total
+      FROM votes v
+      LEFT JOIN voting_rules r ON r.vote_month = v.vote_month
+      WHERE v.language_id = ${languageId}
     `;
 
 		const total = parseInt(result[0]?.total as string || "0");
 
-		await db`
+		await sql`
       UPDATE languages 
       SET total_votes = ${total}
       WHERE id = ${languageId}
@@ -93,53 +355,150 @@ export const languageQueries = {
 		return total;
 	},
 
-	// Obtener ranking usando vista materializada (si existe)
-	async getRankingFromView(): Promise<Language[]> {
-		try {
-			const result = await db`
-        SELECT * FROM language_rankings 
-        ORDER BY rank
-      `;
-			return result as unknown as Language[];
-		} catch (_error) {
-			// Si la vista no existe, usar consulta normal
-			return this.getAllLanguagesRanked();
-		}
+	// Obtener un lenguaje bloqueándolo hasta el fin de la transacción
+	async getLanguageForUpdate(
+		id: number,
+		sql: DbClient,
+	): Promise<Language | null> {
+		const result = await sql`SELECT * FROM languages WHERE id = ${id} FOR UPDATE`;
+		return result.length > 0 ? (result[0] as Language) : null;
+	},
+
+	// Todos los lenguajes del catálogo, incluidos los archivados
+	async getCatalog(): Promise<Language[]> {
+		const result = await db`
+      SELECT * FROM languages
+      ORDER BY archived_at IS NOT NULL, lower(name)
+    `;
+		return result as unknown as Language[];
+	},
+
+	// Buscar un lenguaje por nombre sin distinguir mayúsculas
+	async getLanguageByName(name: string): Promise<Language | null> {
+		const result = await db`
+      SELECT * FROM languages WHERE lower(name) = lower(${name})
+    `;
+		return result.length > 0 ? (result[0] as Language) : null;
+	},
+
+	// Crear un lenguaje
+	async createLanguage(
+		language: LanguageInput,
+		sql: DbClient = db,
+	): Promise<Language> {
+		const result = await sql`
+      INSERT INTO languages (
+        name, description, color, logo_url, homepage, is_featured,
+        tags, paradigms, typing, first_release_year, family, parent_id
+      )
+      VALUES (
+        ${language.name},
+        ${language.description ?? null},
+        ${language.color ?? "#64748b"},
+        ${language.logo_url ?? null},
+        ${language.homepage ?? null},
+        ${language.is_featured ?? false},
+        ${sql.array(language.tags ?? [])}::text[],
+        ${sql.array(language.paradigms ?? [])}::text[],
+        ${language.typing ?? null},
+        ${language.first_release_year ?? null},
+        ${language.family ?? null},
+        ${language.parent_id ?? null}
+      )
+      RETURNING *
+    `;
+		return result[0] as Language;
+	},
+
+	// Actualizar los campos indicados de un lenguaje
+	async updateLanguage(
+		id: number,
+		changes: Partial<LanguageInput>,
+		sql: DbClient = db,
+	): Promise<Language | null> {
+		const columns = Object.keys(changes) as (keyof LanguageInput)[];
+		if (columns.length === 0) return await this.getLanguageById(id);
+
+		const result = await sql`
+      UPDATE languages SET ${sql(changes, columns)}
+      WHERE id = ${id}
+      RETURNING *
+    `;
+		return result.length > 0 ? (result[0] as Language) : null;
+	},
+
+	// Archivar (true) o recuperar (false) un lenguaje
+	async setArchived(id: number, archived: boolean): Promise<Language | null> {
+		const result = await db`
+      UPDATE languages
+      SET archived_at = ${archived ? db`COALESCE(archived_at, NOW())` : null}
+      WHERE id = ${id}
+      RETURNING *
+    `;
+		return result.length > 0 ? (result[0] as Language) : null;
+	},
+
+	// Eliminar un lenguaje (sus votos y alias se borran en cascada)
+	async deleteLanguage(id: number, sql: DbClient = db): Promise<void> {
+		await sql`DELETE FROM languages WHERE id = ${id}`;
 	},
 };
 
 // Consultas para usuarios
 export const userQueries = {
-	// Crear o actualizar usuario
-	async upsertUser(
-		githubId: number,
+	// Crear usuario (la identidad se enlaza aparte en user_identities)
+	async createUser(
 		username: string,
-		avatarUrl?: string,
+		avatarUrl?: string | null,
+		sql: DbClient = db,
 	): Promise<User> {
-		const existing =
-			await db`SELECT * FROM users WHERE github_id = ${githubId}`;
-
-		if (existing.length > 0) {
-			const result = await db`
-        UPDATE users 
-        SET username = ${username}, avatar_url = ${avatarUrl || null}, updated_at = NOW()
-        WHERE github_id = ${githubId}
-        RETURNING *
-      `;
-			return result[0] as User;
-		} else {
-			const result = await db`
-        INSERT INTO users (github_id, username, avatar_url) 
-        VALUES (${githubId}, ${username}, ${avatarUrl || null})
-        RETURNING *
-      `;
-			return result[0] as User;
-		}
+		const result = await sql`
+      INSERT INTO users (username, avatar_url)
+      VALUES (${username}, ${avatarUrl || null})
+      RETURNING *
+    `;
+		return result[0] as User;
+	},
+
+	// Actualizar nombre y avatar con los datos del último login
+	async updateProfile(
+		id: number,
+		username: string,
+		avatarUrl?: string | null,
+		sql: DbClient = db,
+	): Promise<User> {
+		const result = await sql`
+      UPDATE users
+      SET username = ${username}, avatar_url = ${avatarUrl || null}, updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *
+    `;
+		return result[0] as User;
 	},
 
-	// Obtener usuario por GitHub ID
-	async getUserByGithubId(githubId: number): Promise<User | null> {
-		const result = await db`SELECT * FROM users WHERE github_id = ${githubId}`;
+	// Marca una cuenta como fusionada en otra
+	async markMerged(
+		sourceUserId: number,
+		targetUserId: number,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE users
+      SET merged_into = ${targetUserId}, merged_at = NOW(), updated_at = NOW()
+      WHERE id = ${sourceUserId}
+    `;
+	},
+
+	// Obtener usuario por su identidad en un proveedor
+	async getUserByIdentity(
+		provider: string,
+		subject: string,
+	): Promise<User | null> {
+		const result = await db`
+      SELECT u.* FROM users u
+      JOIN user_identities i ON i.user_id = u.id
+      WHERE i.provider = ${provider} AND i.subject = ${subject}
+    `;
 		return result.length > 0 ? (result[0] as User) : null;
 	},
 
@@ -148,13 +507,255 @@ export const userQueries = {
 		const result = await db`SELECT * FROM users WHERE id = ${id}`;
 		return result.length > 0 ? (result[0] as User) : null;
 	},
+
+	// Usuario bloqueado hasta el final de la transacción
+	async getUserForUpdate(id: number, sql: DbClient): Promise<User | null> {
+		const result = await sql`SELECT * FROM users WHERE id = ${id} FOR UPDATE`;
+		return result.length > 0 ? (result[0] as User) : null;
+	},
+};
+
+// Consultas para identidades de proveedores externos
+export const identityQueries = {
+	// Identidad de un proveedor, bloqueada hasta el final de la transacción
+	async getIdentityForUpdate(
+		provider: string,
+		subject: string,
+		sql: DbClient = db,
+	): Promise<UserIdentity | null> {
+		const result = await sql`
+      SELECT * FROM user_identities
+      WHERE provider = ${provider} AND subject = ${subject}
+      FOR UPDATE
+    `;
+		return result.length > 0 ? (result[0] as UserIdentity) : null;
+	},
+
+	// Identidades enlazadas a un usuario
+	async getUserIdentities(
+		userId: number,
+		sql: DbClient = db,
+	): Promise<UserIdentity[]> {
+		const result = await sql`
+      SELECT * FROM user_identities
+      WHERE user_id = ${userId}
+      ORDER BY created_at
+    `;
+		return result as unknown as UserIdentity[];
+	},
+
+	// Identidades de un usuario bloqueadas (para no desenlazar la última en paralelo)
+	async lockUserIdentities(
+		userId: number,
+		sql: DbClient,
+	): Promise<UserIdentity[]> {
+		const result = await sql`
+      SELECT * FROM user_identities
+      WHERE user_id = ${userId}
+      ORDER BY created_at
+      FOR UPDATE
+    `;
+		return result as unknown as UserIdentity[];
+	},
+
+	async deleteIdentity(id: number, sql: DbClient): Promise<void> {
+		await sql`DELETE FROM user_identities WHERE id = ${id}`;
+	},
+
+	// Pasa todas las identidades de una cuenta a otra
+	async transferIdentities(
+		sourceUserId: number,
+		targetUserId: number,
+		sql: DbClient,
+	): Promise<number> {
+		const result = await sql`
+      UPDATE user_identities SET user_id = ${targetUserId}
+      WHERE user_id = ${sourceUserId}
+    `;
+		return result.count;
+	},
+
+	// Enlaza una identidad; devuelve null si otra petición ya la enlazó
+	async createIdentity(
+		userId: number,
+		identity: Pick<UserIdentity, "provider" | "subject" | "username" | "email">,
+		sql: DbClient = db,
+	): Promise<UserIdentity | null> {
+		const result = await sql`
+      INSERT INTO user_identities (user_id, provider, subject, username, email)
+      VALUES (${userId}, ${identity.provider}, ${identity.subject}, ${identity.username}, ${identity.email})
+      ON CONFLICT (provider, subject) DO NOTHING
+      RETURNING *
+    `;
+		return result.length > 0 ? (result[0] as UserIdentity) : null;
+	},
+
+	// Registra un nuevo login con la identidad y refresca sus datos
+	async touchIdentity(
+		id: number,
+		username: string,
+		email: string | null,
+		sql: DbClient = db,
+	): Promise<void> {
+		await sql`
+      UPDATE user_identities
+      SET username = ${username}, email = ${email}, last_login_at = NOW()
+      WHERE id = ${id}
+    `;
+	},
+};
+
+// Consultas para sesiones
+export const sessionQueries = {
+	// Registra una sesión nueva y limpia las ya caducadas o revocadas del usuario
+	async createSession(
+		session: {
+			jti: string;
+			userId: number;
+			provider: string;
+			userAgent: string | null;
+			ipAddress: string | null;
+			expiresAt: Date;
+		},
+		sql: DbClient = db,
+	): Promise<UserSession> {
+		await sql`
+      DELETE FROM sessions
+      WHERE user_id = ${session.userId}
+        AND (expires_at <= NOW() OR revoked_at IS NOT NULL)
+    `;
+		const result = await sql`
+      INSERT INTO sessions (jti, user_id, provider, user_agent, ip_address, expires_at)
+      VALUES (
+        ${session.jti}, ${session.userId}, ${session.provider},
+        ${session.userAgent}, ${session.ipAddress}, ${session.expiresAt}
+      )
+      RETURNING *
+    `;
+		return result[0] as UserSession;
+	},
+
+	// Sesión no revocada ni caducada
+	async getActiveSession(jti: string): Promise<UserSession | null> {
+		const result = await db`
+      SELECT * FROM sessions
+      WHERE jti = ${jti} AND revoked_at IS NULL AND expires_at > NOW()
+    `;
+		return result.length > 0 ? (result[0] as UserSession) : null;
+	},
+
+	// Sesiones activas de un usuario (la más reciente primero)
+	async getUserSessions(userId: number): Promise<UserSession[]> {
+		const result = await db`
+      SELECT * FROM sessions
+      WHERE user_id = ${userId} AND revoked_at IS NULL AND expires_at > NOW()
+      ORDER BY last_seen_at DESC
+    `;
+		return result as unknown as UserSession[];
+	},
+
+	async touchSession(id: number, ipAddress: string | null): Promise<void> {
+		await db`
+      UPDATE sessions
+      SET last_seen_at = NOW(), ip_address = COALESCE(${ipAddress}, ip_address)
+      WHERE id = ${id}
+    `;
+	},
+
+	// Sesión usada de nuevo: se alarga su caducidad (sesión deslizante)
+	async extendSession(
+		id: number,
+		expiresAt: Date,
+		ipAddress: string | null,
+		sql: DbClient = db,
+	): Promise<void> {
+		await sql`
+      UPDATE sessions
+      SET expires_at = ${expiresAt}, last_seen_at = NOW(),
+          ip_address = COALESCE(${ipAddress}, ip_address)
+      WHERE id = ${id}
+    `;
+	},
+
+	// Revoca una sesión del usuario; devuelve la sesión revocada o null si no es suya
+	async revokeSession(
+		userId: number,
+		id: number,
+		sql: DbClient = db,
+	): Promise<UserSession | null> {
+		const result = await sql`
+      UPDATE sessions SET revoked_at = NOW()
+      WHERE id = ${id} AND user_id = ${userId} AND revoked_at IS NULL
+      RETURNING *
+    `;
+		return result.length > 0 ? (result[0] as UserSession) : null;
+	},
+
+	// Cierra todas las sesiones de un usuario
+	async revokeUserSessions(
+		userId: number,
+		sql: DbClient = db,
+	): Promise<number> {
+		const result = await sql`
+      UPDATE sessions SET revoked_at = NOW()
+      WHERE user_id = ${userId} AND revoked_at IS NULL
+    `;
+		return result.count;
+	},
+};
+
+// Consultas para tokens de refresco
+export const refreshTokenQueries = {
+	async createRefreshToken(
+		sessionId: number,
+		tokenHash: string,
+		expiresAt: Date,
+		sql: DbClient = db,
+	): Promise<RefreshToken> {
+		const result = await sql`
+      INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+      VALUES (${sessionId}, ${tokenHash}, ${expiresAt})
+      RETURNING *
+    `;
+		return result[0] as RefreshToken;
+	},
+
+	// Token con los datos de su sesión, bloqueado hasta el final de la transacción
+	async getRefreshTokenForUpdate(
+		tokenHash: string,
+		sql: DbClient,
+	): Promise<RefreshTokenWithSession | null> {
+		const result = await sql`
+      SELECT
+        r.*, s.jti, s.user_id, s.provider, s.user_agent, s.ip_address,
+        s.revoked_at AS session_revoked_at
+      FROM refresh_tokens r
+      JOIN sessions s ON s.id = r.session_id
+      WHERE r.token_hash = ${tokenHash}
+      FOR UPDATE OF r
+    `;
+		return result.length > 0 ? (result[0] as RefreshTokenWithSession) : null;
+	},
+
+	// Marca el token como usado y borra los ya caducados de su sesión
+	async markUsed(id: number, sessionId: number, sql: DbClient): Promise<void> {
+		await sql`UPDATE refresh_tokens SET used_at = NOW() WHERE id = ${id}`;
+		await sql`
+      DELETE FROM refresh_tokens
+      WHERE session_id = ${sessionId} AND expires_at <= NOW()
+    `;
+	},
 };
 
 // Consultas para votos
 export const voteQueries = {
 	// Obtener votos de un usuario en un mes específico
-	async getUserMonthlyVotes(userId: number, month: string): Promise<Vote[]> {
-		const result = await db`
+	async getUserMonthlyVotes(
+		userId: number,
+		month: string,
+		sql: DbClient = db,
+	): Promise<Vote[]> {
+		const result = await sql`
       SELECT * FROM votes 
       WHERE user_id = ${userId} AND vote_month = ${month}
       ORDER BY points DESC
@@ -166,8 +767,9 @@ export const voteQueries = {
 	async getUserMonthlyPoints(
 		userId: number,
 		month: string,
+		sql: DbClient = db,
 	): Promise<{ total_points: number; votes_count: number }> {
-		const result = await db`
+		const result = await sql`
       SELECT 
         COALESCE(SUM(points), 0) as total_points,
         COUNT(*) as votes_count
@@ -201,7 +803,7 @@ export const voteQueries = {
 		total_users: number;
 		total_points: number;
 	}> {
-		const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
+		const currentMonth = dbUtils.getCurrentMonth();
 
 		const result = await db`
       SELECT 
@@ -225,8 +827,9 @@ export const voteQueries = {
 		languageId: number,
 		points: number,
 		month: string,
+		sql: DbClient = db,
 	): Promise<Vote> {
-		const result = await db`
+		const result = await sql`
       INSERT INTO votes (user_id, language_id, points, vote_month)
       VALUES (${userId}, ${languageId}, ${points}, ${month})
       RETURNING *
@@ -241,9 +844,10 @@ export const voteQueries = {
 		languageId: number,
 		points: number,
 		month: string,
+		sql: DbClient = db,
 	): Promise<Vote> {
 		// Simplemente insertar un nuevo voto - el sistema permite múltiples votos por lenguaje
-		return this.insertVote(userId, languageId, points, month);
+		return this.insertVote(userId, languageId, points, month, sql);
 	},
 
 	// Actualizar un voto existente
@@ -281,6 +885,176 @@ export const voteQueries = {
 		return result[0] as Vote;
 	},
 
+	// Obtener puntos acumulados de un usuario para un lenguaje en un mes
+	async getUserLanguagePoints(
+		userId: number,
+		languageId: number,
+		month: string,
+		sql: DbClient = db,
+	): Promise<number> {
+		const result = await sql`
+      SELECT COALESCE(SUM(points), 0) as total_points
+      FROM votes
+      WHERE user_id = ${userId} AND language_id = ${languageId} AND vote_month = ${month}
+    `;
+
+		return parseInt(result[0]?.total_points as string || "0");
+	},
+
+	// Retirar todos los puntos de un usuario para un lenguaje en un mes
+	// (el trigger de la migración 002 recalcula total_votes)
+	async removeLanguageVotes(
+		userId: number,
+		languageId: number,
+		month: string,
+		sql: DbClient = db,
+	): Promise<number> {
+		const result = await sql`
+      DELETE FROM votes
+      WHERE user_id = ${userId} AND language_id = ${languageId} AND vote_month = ${month}
+      RETURNING points
+    `;
+
+		return result.reduce((sum, row) => sum + (row.points as number), 0);
+	},
+
+	// Mover puntos de un lenguaje a otro dentro del mismo mes
+	// (debe ejecutarse dentro de una transacción para ser atómico)
+	async movePoints(
+		userId: number,
+		fromLanguageId: number,
+		toLanguageId: number,
+		points: number,
+		month: string,
+		sql: DbClient = db,
+	): Promise<Vote> {
+		// Descontar primero de los votos más recientes del lenguaje origen
+		const sourceVotes = await sql`
+      SELECT id, points FROM votes
+      WHERE user_id = ${userId} AND language_id = ${fromLanguageId} AND vote_month = ${month}
+      ORDER BY created_at DESC, id DESC
+      FOR UPDATE
+    `;
+
+		let pending = points;
+		for (const vote of sourceVotes) {
+			if (pending <= 0) break;
+
+			const votePoints = vote.points as number;
+			if (votePoints <= pending) {
+				await sql`DELETE FROM votes WHERE id = ${vote.id}`;
+				pending -= votePoints;
+			} else {
+				await sql`UPDATE votes SET points = ${votePoints - pending} WHERE id = ${vote.id}`;
+				pending = 0;
+			}
+		}
+
+		if (pending > 0) {
+			throw new Error("Not enough points to move from this language");
+		}
+
+		return await this.insertVote(userId, toLanguageId, points, month, sql);
+	},
+
+	// Obtener los puntos acumulados por lenguaje de un usuario en un mes
+	async getUserAllocation(
+		userId: number,
+		month: string,
+		sql: DbClient = db,
+	): Promise<Record<number, number>> {
+		const result = await sql`
+      SELECT language_id, SUM(points) as points
+      FROM votes
+      WHERE user_id = ${userId} AND vote_month = ${month}
+      GROUP BY language_id
+    `;
+
+		const allocation: Record<number, number> = {};
+		for (const row of result) {
+			allocation[row.language_id as number] = parseInt(row.points as string);
+		}
+		return allocation;
+	},
+
+	// Bloquear la fila mensual del usuario hasta el fin de la transacción
+	// (serializa las operaciones de voto concurrentes de un mismo usuario)
+	async lockUserMonth(
+		userId: number,
+		month: string,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      INSERT INTO user_monthly_votes (user_id, vote_month)
+      VALUES (${userId}, ${month})
+      ON CONFLICT (user_id, vote_month) DO NOTHING
+    `;
+		await sql`
+      SELECT id FROM user_monthly_votes
+      WHERE user_id = ${userId} AND vote_month = ${month}
+      FOR UPDATE
+    `;
+	},
+
+	// Sincronizar los totales mensuales del usuario con sus votos
+	async syncUserMonthlyTotals(
+		userId: number,
+		month: string,
+		sql: DbClient = db,
+	): Promise<void> {
+		await sql`
+      UPDATE user_monthly_votes
+      SET
+        total_points_used = totals.total_points,
+        votes_count = totals.votes_count
+      FROM (
+        SELECT COALESCE(SUM(points), 0) as total_points, COUNT(*) as votes_count
+        FROM votes
+        WHERE user_id = ${userId} AND vote_month = ${month}
+      ) totals
+      WHERE user_id = ${userId} AND vote_month = ${month}
+    `;
+	},
+
+	// Puntos acumulados por usuario y mes para un lenguaje, bloqueando sus votos
+	async getLanguageAllocations(
+		languageId: number,
+		sql: DbClient,
+	): Promise<{ user_id: number; vote_month: string; points: number }[]> {
+		const rows = await sql`
+      SELECT id FROM votes WHERE language_id = ${languageId} FOR UPDATE
+    `;
+		if (rows.length === 0) return [];
+
+		const result = await sql`
+      SELECT user_id, vote_month, SUM(points)::int as points
+      FROM votes
+      WHERE language_id = ${languageId}
+      GROUP BY user_id, vote_month
+      ORDER BY vote_month, user_id
+    `;
+		return result as unknown as {
+			user_id: number;
+			vote_month: string;
+			points: number;
+		}[];
+	},
+
+	// Pasar los votos de un usuario en un mes de un lenguaje a otro
+	async reassignLanguageVotes(
+		userId: number,
+		fromLanguageId: number,
+		toLanguageId: number,
+		month: string,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE votes
+      SET language_id = ${toLanguageId}
+      WHERE user_id = ${userId} AND language_id = ${fromLanguageId} AND vote_month = ${month}
+    `;
+	},
+
 	// Obtener votos por lenguaje en un mes específico
 	async getLanguageMonthlyVotes(
 		languageId: number,
@@ -325,64 +1099,912 @@ export const voteQueries = {
 	},
 };
 
+// Consultas para alias de lenguajes
+export const aliasQueries = {
+	// Alias de un lenguaje
+	async getAliases(
+		languageId: number,
+		sql: DbClient = db,
+	): Promise<LanguageAlias[]> {
+		const result = await sql`
+      SELECT * FROM language_aliases
+      WHERE language_id = ${languageId}
+      ORDER BY lower(alias)
+    `;
+		return result as unknown as LanguageAlias[];
+	},
+
+	// Buscar un alias sin distinguir mayúsculas
+	async getAlias(
+		alias: string,
+		sql: DbClient = db,
+	): Promise<LanguageAlias | null> {
+		const result = await sql`
+      SELECT * FROM language_aliases WHERE lower(alias) = lower(${alias})
+    `;
+		return result.length > 0 ? (result[0] as LanguageAlias) : null;
+	},
+
+	// Añadir un alias; devuelve null si ya existe (para cualquier lenguaje)
+	async addAlias(
+		languageId: number,
+		alias: string,
+		sql: DbClient = db,
+	): Promise<LanguageAlias | null> {
+		const result = await sql`
+      INSERT INTO language_aliases (language_id, alias)
+      VALUES (${languageId}, ${alias})
+      ON CONFLICT (lower(alias)) DO NOTHING
+      RETURNING *
+    `;
+		return result.length > 0 ? (result[0] as LanguageAlias) : null;
+	},
+
+	// Eliminar un alias de un lenguaje; devuelve false si no existía
+	async removeAlias(
+		languageId: number,
+		aliasId: number,
+		sql: DbClient = db,
+	): Promise<boolean> {
+		const result = await sql`
+      DELETE FROM language_aliases
+      WHERE id = ${aliasId} AND language_id = ${languageId}
+      RETURNING id
+    `;
+		return result.length > 0;
+	},
+
+	// Pasar todos los alias de un lenguaje a otro
+	async moveAliases(
+		fromLanguageId: number,
+		toLanguageId: number,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE language_aliases
+      SET language_id = ${toLanguageId}
+      WHERE language_id = ${fromLanguageId}
+    `;
+	},
+};
+
+// Consultas para redirecciones de lenguajes fusionados
+export const redirectQueries = {
+	// Lenguaje al que redirige un id fusionado (null si no hay redirección)
+	async getRedirect(oldLanguageId: number): Promise<number | null> {
+		const result = await db`
+      SELECT language_id FROM language_redirects
+      WHERE old_language_id = ${oldLanguageId}
+    `;
+		return (result[0]?.language_id as number | undefined) ?? null;
+	},
+
+	// Redirigir un lenguaje fusionado y las redirecciones que ya apuntaban a él,
+	// para que nunca haya que seguir más de un salto
+	async addRedirect(
+		oldLanguageId: number,
+		oldName: string,
+		languageId: number,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE language_redirects
+      SET language_id = ${languageId}
+      WHERE language_id = ${oldLanguageId}
+    `;
+		await sql`
+      INSERT INTO language_redirects (old_language_id, language_id, old_name)
+      VALUES (${oldLanguageId}, ${languageId}, ${oldName})
+    `;
+	},
+};
+
+// Consultas para sugerencias de lenguajes
+export const suggestionQueries = {
+	// Sugerencias en un estado, las más apoyadas primero.
+	// has_upvoted indica si userId ya la apoyó
+	async getSuggestions(
+		status: SuggestionStatus,
+		userId: number | null,
+	): Promise<LanguageSuggestionSummary[]> {
+		const result = await db`
+      SELECT
+        s.*,
+        u.username as suggested_by_username,
+        COUNT(v.user_id)::int as upvotes,
+        COALESCE(BOOL_OR(v.user_id = ${userId}), false) as has_upvoted
+      FROM language_suggestions s
+      LEFT JOIN users u ON u.id = s.suggested_by
+      LEFT JOIN language_suggestion_votes v ON v.suggestion_id = s.id
+      WHERE s.status = ${status}
+      GROUP BY s.id, u.username
+      ORDER BY upvotes DESC, s.created_at ASC
+    `;
+		return result as unknown as LanguageSuggestionSummary[];
+	},
+
+	async getSuggestionForUpdate(
+		id: number,
+		sql: DbClient,
+	): Promise<LanguageSuggestion | null> {
+		const result = await sql`
+      SELECT * FROM language_suggestions WHERE id = ${id} FOR UPDATE
+    `;
+		return result.length > 0 ? (result[0] as LanguageSuggestion) : null;
+	},
+
+	async getSuggestion(id: number): Promise<LanguageSuggestion | null> {
+		const result = await db`
+      SELECT * FROM language_suggestions WHERE id = ${id}
+    `;
+		return result.length > 0 ? (result[0] as LanguageSuggestion) : null;
+	},
+
+	// Sugerencia pendiente con el mismo nombre (sin distinguir mayúsculas)
+	async getPendingByName(name: string): Promise<LanguageSuggestion | null> {
+		const result = await db`
+      SELECT * FROM language_suggestions
+      WHERE lower(name) = lower(${name}) AND status = 'pending'
+    `;
+		return result.length > 0 ? (result[0] as LanguageSuggestion) : null;
+	},
+
+	// Crear una sugerencia; null si ya hay una pendiente con ese nombre
+	async createSuggestion(
+		userId: number,
+		suggestion: Pick<LanguageSuggestion, "name" | "description" | "homepage">,
+	): Promise<LanguageSuggestion | null> {
+		const result = await db`
+      INSERT INTO language_suggestions (name, description, homepage, suggested_by)
+      VALUES (
+        ${suggestion.name},
+        ${suggestion.description},
+        ${suggestion.homepage},
+        ${userId}
+      )
+      ON CONFLICT (lower(name)) WHERE status = 'pending' DO NOTHING
+      RETURNING *
+    `;
+		return result.length > 0 ? (result[0] as LanguageSuggestion) : null;
+	},
+
+	// Apoyar una sugerencia; false si el usuario ya la apoyaba
+	async addUpvote(suggestionId: number, userId: number): Promise<boolean> {
+		const result = await db`
+      INSERT INTO language_suggestion_votes (suggestion_id, user_id)
+      VALUES (${suggestionId}, ${userId})
+      ON CONFLICT DO NOTHING
+      RETURNING suggestion_id
+    `;
+		return result.length > 0;
+	},
+
+	// Retirar el apoyo; false si no lo había
+	async removeUpvote(suggestionId: number, userId: number): Promise<boolean> {
+		const result = await db`
+      DELETE FROM language_suggestion_votes
+      WHERE suggestion_id = ${suggestionId} AND user_id = ${userId}
+      RETURNING suggestion_id
+    `;
+		return result.length > 0;
+	},
+
+	async countUpvotes(suggestionId: number): Promise<number> {
+		const result = await db`
+      SELECT COUNT(*)::int as upvotes
+      FROM language_suggestion_votes
+      WHERE suggestion_id = ${suggestionId}
+    `;
+		return (result[0]?.upvotes as number | undefined) ?? 0;
+	},
+
+	// Las sugerencias aprobadas de un lenguaje fusionado apuntan al destino
+	async moveLanguage(
+		sourceId: number,
+		targetId: number,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE language_suggestions SET language_id = ${targetId}
+      WHERE language_id = ${sourceId}
+    `;
+	},
+
+	// Pasa sugerencias y apoyos de una cuenta a otra. Los apoyos repetidos
+	// o a sugerencias propias de target se descartan
+	async transferUser(
+		sourceUserId: number,
+		targetUserId: number,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE language_suggestions SET suggested_by = ${targetUserId}
+      WHERE suggested_by = ${sourceUserId}
+    `;
+		await sql`
+      INSERT INTO language_suggestion_votes (suggestion_id, user_id, created_at)
+      SELECT v.suggestion_id, ${targetUserId}, v.created_at
+      FROM language_suggestion_votes v
+      JOIN language_suggestions s ON s.id = v.suggestion_id
+      WHERE v.user_id = ${sourceUserId}
+        AND s.suggested_by IS DISTINCT FROM ${targetUserId}
+      ON CONFLICT DO NOTHING
+    `;
+		await sql`
+      DELETE FROM language_suggestion_votes WHERE user_id = ${sourceUserId}
+    `;
+	},
+
+	// Cerrar una sugerencia: aprobada (con el lenguaje creado) o rechazada (con motivo)
+	async review(
+		id: number,
+		review:
+			| { status: "approved"; language_id: number }
+			| { status: "rejected"; rejection_reason: string },
+		sql: DbClient = db,
+	): Promise<LanguageSuggestion> {
+		const result = await sql`
+      UPDATE language_suggestions
+      SET
+        status = ${review.status},
+        language_id = ${review.status === "approved" ? review.language_id : null},
+        rejection_reason = ${review.status === "rejected" ? review.rejection_reason : null},
+        reviewed_at = NOW()
+      WHERE id = ${id}
+      RETURNING *
+    `;
+		return result[0] as LanguageSuggestion;
+	},
+};
+
+// Consultas para revisiones de lenguajes
+export const revisionQueries = {
+	// Historial de revisiones de un lenguaje, de la más reciente a la más antigua
+	async getLanguageRevisions(
+		languageId: number,
+	): Promise<LanguageRevisionSummary[]> {
+		const result = await db`
+      SELECT r.*, u.username as author_username, l.name as language_name
+      FROM language_revisions r
+      JOIN languages l ON l.id = r.language_id
+      LEFT JOIN users u ON u.id = r.author_id
+      WHERE r.language_id = ${languageId}
+      ORDER BY r.id DESC
+    `;
+		return result as unknown as LanguageRevisionSummary[];
+	},
+
+	// Cola de moderación: revisiones pendientes, las más antiguas primero
+	async getPendingRevisions(): Promise<LanguageRevisionSummary[]> {
+		const result = await db`
+      SELECT r.*, u.username as author_username, l.name as language_name
+      FROM language_revisions r
+      JOIN languages l ON l.id = r.language_id
+      LEFT JOIN users u ON u.id = r.author_id
+      WHERE r.status = 'pending'
+      ORDER BY r.created_at ASC, r.id ASC
+    `;
+		return result as unknown as LanguageRevisionSummary[];
+	},
+
+	// Revisiones aplicadas de un lenguaje en el orden en que se aplicaron,
+	// que no tiene por qué ser el de propuesta (las heredadas de una fusión
+	// describen otro lenguaje y no cuentan)
+	async getAppliedRevisions(
+		languageId: number,
+		sql: DbClient = db,
+	): Promise<LanguageRevision[]> {
+		const result = await sql`
+      SELECT * FROM language_revisions
+      WHERE language_id = ${languageId}
+        AND status = 'applied'
+        AND merged_from IS NULL
+      ORDER BY reviewed_at ASC, id ASC
+    `;
+		return result as unknown as LanguageRevision[];
+	},
+
+	async getRevisionForUpdate(
+		id: number,
+		sql: DbClient,
+	): Promise<LanguageRevision | null> {
+		const result = await sql`
+      SELECT * FROM language_revisions WHERE id = ${id} FOR UPDATE
+    `;
+		return result.length > 0 ? (result[0] as LanguageRevision) : null;
+	},
+
+	// Registrar una revisión (pendiente o ya aplicada)
+	async createRevision(
+		revision: Pick<
+			LanguageRevision,
+			| "language_id"
+			| "author_id"
+			| "status"
+			| "diff"
+			| "comment"
+			| "rollback_of"
+		>,
+		sql: DbClient = db,
+	): Promise<LanguageRevision> {
+		const result = await sql`
+      INSERT INTO language_revisions (
+        language_id, author_id, status, diff, comment, rollback_of, reviewed_at
+      )
+      VALUES (
+        ${revision.language_id},
+        ${revision.author_id},
+        ${revision.status},
+        ${sql.json(revision.diff)},
+        ${revision.comment},
+        ${revision.rollback_of},
+        ${revision.status === "pending" ? null : sql`NOW()`}
+      )
+      RETURNING *
+    `;
+		return result[0] as LanguageRevision;
+	},
+
+	// Cerrar una revisión pendiente: aplicada o rechazada (con motivo)
+	async review(
+		id: number,
+		review:
+			| { status: "applied" }
+			| { status: "rejected"; rejection_reason: string },
+		sql: DbClient,
+	): Promise<LanguageRevision> {
+		const result = await sql`
+      UPDATE language_revisions
+      SET
+        status = ${review.status},
+        rejection_reason = ${review.status === "rejected" ? review.rejection_reason : null},
+        reviewed_at = NOW()
+      WHERE id = ${id}
+      RETURNING *
+    `;
+		return result[0] as LanguageRevision;
+	},
+
+	// Pasa el historial de un lenguaje fusionado al destino. Las pendientes
+	// proponían cambios sobre el duplicado y se rechazan
+	async moveRevisions(
+		sourceId: number,
+		targetId: number,
+		sourceName: string,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE language_revisions
+      SET
+        status = 'rejected',
+        rejection_reason = 'The language was merged into another one',
+        reviewed_at = NOW()
+      WHERE language_id = ${sourceId} AND status = 'pending'
+    `;
+		await sql`
+      UPDATE language_revisions
+      SET language_id = ${targetId}, merged_from = ${sourceName}
+      WHERE language_id = ${sourceId}
+    `;
+	},
+
+	// Atribuye a otra cuenta las revisiones propuestas por source
+	async transferAuthor(
+		sourceUserId: number,
+		targetUserId: number,
+		sql: DbClient,
+	): Promise<void> {
+		await sql`
+      UPDATE language_revisions SET author_id = ${targetUserId}
+      WHERE author_id = ${sourceUserId}
+    `;
+	},
+};
+
+// Consultas para reglas de votación
+export const ruleQueries = {
+	// Obtener las reglas de un mes, creándolas si aún no existen
+	// (se heredan del último mes configurado o se usan los valores por defecto de la tabla)
+	async getRulesForMonth(
+		month: string,
+		sql: DbClient = db,
+	): Promise<VotingRules> {
+		await sql`
+      INSERT INTO voting_rules (
+        vote_month, scoring_strategy, points_budget, max_points_per_language,
+        min_increment, max_increment, carry_over
+      )
+      SELECT
+        ${month}, scoring_strategy, points_budget, max_points_per_language,
+        min_increment, max_increment, carry_over
+      FROM voting_rules
+      WHERE vote_month < ${month}
+      ORDER BY vote_month DESC
+      LIMIT 1
+      ON CONFLICT (vote_month) DO NOTHING
+    `;
+		await sql`
+      INSERT INTO voting_rules (vote_month)
+      VALUES (${month})
+      ON CONFLICT (vote_month) DO NOTHING
+    `;
+
+		const result = await sql`
+      SELECT vote_month, scoring_strategy, points_budget, max_points_per_language,
+             min_increment, max_increment, carry_over
+      FROM voting_rules
+      WHERE vote_month = ${month}
+    `;
+		return result[0] as VotingRules;
+	},
+};
+
+// Consultas para periodos de votación
+export const periodQueries = {
+	// Crear el periodo de un mes si no existe; los límites son el primer
+	// instante del mes y del mes siguiente en la zona horaria indicada
+	async ensurePeriod(
+		code: string,
+		timezone: string,
+		sql: DbClient = db,
+	): Promise<void> {
+		await sql`
+      INSERT INTO voting_periods (code, starts_at, ends_at, timezone)
+      VALUES (
+        ${code},
+        (${code} || '-01')::timestamp AT TIME ZONE ${timezone},
+        ((${code} || '-01')::timestamp + INTERVAL '1 month') AT TIME ZONE ${timezone},
+        ${timezone}
+      )
+      ON CONFLICT (code) DO NOTHING
+    `;
+	},
+
+	// Abrir y cerrar periodos según la hora actual (finalized no se toca)
+	async syncStatuses(sql: DbClient = db): Promise<void> {
+		await sql`
+      UPDATE voting_periods SET status = 'open'
+      WHERE status = 'scheduled' AND starts_at <= NOW() AND ends_at > NOW()
+    `;
+		await sql`
+      UPDATE voting_periods SET status = 'closed'
+      WHERE status IN ('scheduled', 'open') AND ends_at <= NOW()
+    `;
+	},
+
+	// Obtener un periodo por su código 'YYYY-MM'
+	async getPeriod(
+		code: string,
+		sql: DbClient = db,
+	): Promise<VotingPeriod | null> {
+		const result = await sql`
+      SELECT code, starts_at, ends_at, timezone, status
+      FROM voting_periods
+      WHERE code = ${code}
+    `;
+		return (result[0] as VotingPeriod) || null;
+	},
+
+	// Obtener un periodo bloqueando su estado hasta el fin de la transacción
+	// (evita que se cierre mientras se registra un voto)
+	async getPeriodForShare(
+		code: string,
+		sql: DbClient,
+	): Promise<VotingPeriod | null> {
+		const result = await sql`
+      SELECT code, starts_at, ends_at, timezone, status
+      FROM voting_periods
+      WHERE code = ${code}
+      FOR SHARE
+    `;
+		return (result[0] as VotingPeriod) || null;
+	},
+
+	// Obtener todos los periodos, del más reciente al más antiguo
+	async getAllPeriods(): Promise<VotingPeriod[]> {
+		const result = await db`
+      SELECT code, starts_at, ends_at, timezone, status
+      FROM voting_periods
+      ORDER BY starts_at DESC
+    `;
+		return result as unknown as VotingPeriod[];
+	},
+
+	// Obtener los periodos cerrados pendientes de snapshot, del más antiguo al más reciente
+	async getClosedPeriods(sql: DbClient = db): Promise<VotingPeriod[]> {
+		const result = await sql`
+      SELECT code, starts_at, ends_at, timezone, status
+      FROM voting_periods
+      WHERE status = 'closed'
+      ORDER BY starts_at ASC
+    `;
+		return result as unknown as VotingPeriod[];
+	},
+
+	// Bloquear un periodo para cambiar su estado dentro de una transacción
+	async getPeriodForUpdate(
+		code: string,
+		sql: DbClient,
+	): Promise<VotingPeriod | null> {
+		const result = await sql`
+      SELECT code, starts_at, ends_at, timezone, status
+      FROM voting_periods
+      WHERE code = ${code}
+      FOR UPDATE
+    `;
+		return (result[0] as VotingPeriod) || null;
+	},
+
+	// Cambiar el estado de un periodo
+	async setStatus(
+		code: string,
+		status: VotingPeriodStatus,
+		sql: DbClient = db,
+	): Promise<void> {
+		await sql`
+      UPDATE voting_periods SET status = ${status}
+      WHERE code = ${code}
+    `;
+	},
+};
+
+// Consultas para snapshots del ranking mensual
+export const snapshotQueries = {
+	// Guardar el ranking final de un mes (las filas no se pueden modificar después)
+	async insertSnapshot(
+		entries: RankingSnapshotEntry[],
+		sql: DbClient = db,
+	): Promise<void> {
+		if (entries.length === 0) return;
+
+		await sql`
+      INSERT INTO ranking_snapshots ${sql(entries)}
+    `;
+	},
+
+	// Obtener el ranking final de un mes ordenado por posición
+	async getSnapshot(
+		month: string,
+		sql: DbClient = db,
+	): Promise<RankingSnapshotEntry[]> {
+		const result = await sql`
+      SELECT vote_month, language_id, language_name, language_color, rank, points,
+             voters, previous_rank, rank_change, scoring_strategy, ranking_algorithm
+      FROM ranking_snapshots
+      WHERE vote_month = ${month}
+      ORDER BY rank ASC
+    `;
+		return result as unknown as RankingSnapshotEntry[];
+	},
+
+	// Obtener los meses con snapshot y su líder
+	async getSnapshotSummaries(): Promise<
+		{ vote_month: string; languages: number; leader: string | null }[]
+	> {
+		const result = await db`
+      SELECT
+        vote_month,
+        COUNT(*)::int as languages,
+        MAX(language_name) FILTER (WHERE rank = 1) as leader
+      FROM ranking_snapshots
+      GROUP BY vote_month
+      ORDER BY vote_month DESC
+    `;
+		return result as unknown as {
+			vote_month: string;
+			languages: number;
+			leader: string | null;
+		}[];
+	},
+};
+
+// Agregación de la puntuación mensual de un lenguaje según la estrategia del mes
+// (se aplica sobre las filas de votes de ese mes agrupadas por language_id)
+export const scoringAggregations = {
+	// Suma directa de puntos
+	linear: (_rules: VotingRules) => db`SUM(points)`,
+	// Los votos cuentan uno a uno; el coste cuadrático se cobra al validar
+	quadratic: (_rules: VotingRules) => db`SUM(points)`,
+	// points es la posición en la papeleta: el primero recibe points_budget puntos
+	borda: (rules: VotingRules) =>
+		db`SUM(GREATEST(${rules.points_budget} + 1 - points, 0))`,
+	// Cada votante aprueba o no un lenguaje
+	approval: (_rules: VotingRules) => db`COUNT(DISTINCT user_id)`,
+} satisfies Record<ScoringStrategyName, (rules: VotingRules) => unknown>;
+
+// Puntuación por la que ordena cada algoritmo de ranking. Se evalúa sobre
+// ranked_source (rs: ranking_points, ranking_voters) y priors (p)
+const rankingScores = {
+	// Puntos totales; los empates comparten posición (1, 2, 2, 4)
+	competition: () => db`rs.ranking_points`,
+	// Puntos totales; los empates comparten posición sin huecos (1, 2, 2, 3)
+	dense: () => db`rs.ranking_points`,
+	// Media bayesiana de puntos por votante: los lenguajes con pocos votantes
+	// se acercan a la media global (m) con el peso de un lenguaje típico (C)
+	bayesian: () =>
+		db`COALESCE((p.confidence * p.mean_points + rs.ranking_points) / NULLIF(p.confidence + rs.ranking_voters, 0), 0)`,
+	// Límite inferior de Wilson de la proporción de votantes que apoyan el lenguaje
+	wilson: () => db`wilson_lower_bound(rs.ranking_voters, p.total_voters)`,
+} satisfies Record<RankingAlgorithm, () => unknown>;
+
+// Ordena una consulta de lenguajes (con columnas ranking_points y ranking_voters)
+// según el algoritmo, asignando rank_position compartida en caso de empate
+async function rankLanguages(
+	sql: DbClient,
+	source: SqlFragment,
+	totalVoters: SqlFragment,
+	algorithm: RankingAlgorithm,
+	limit: number | null,
+) {
+	const rankFunction = algorithm === "dense" ? sql`DENSE_RANK()` : sql`RANK()`;
+
+	return await sql`
+    WITH ranked_source AS (${source}),
+    priors AS (
+      SELECT
+        COALESCE(SUM(ranking_points)::float8 / NULLIF(SUM(ranking_voters), 0), 0) as mean_points,
+        COALESCE(AVG(ranking_voters) FILTER (WHERE ranking_voters > 0), 0)::float8 as confidence,
+        COALESCE((${totalVoters}), 0)::int as total_voters
+      FROM ranked_source
+    ),
+    scored AS (
+      SELECT rs.*, ROUND((${rankingScores[algorithm]()})::numeric, 4)::float8 as ranking_score
+      FROM ranked_source rs
+      CROSS JOIN priors p
+    )
+    SELECT
+      scored.*,
+      (${rankFunction} OVER (ORDER BY ranking_score DESC))::int as rank_position
+    FROM scored
+    ORDER BY ranking_score DESC, name ASC
+    LIMIT ${limit}
+  `;
+}
+
 // Utilidades
 export const dbUtils = {
-	// Obtener mes actual en formato YYYY-MM
+	// Zona horaria configurada para los periodos de votación
+	getVotingTimezone(): string {
+		return votingTimezone;
+	},
+
+	// Obtener mes actual en formato YYYY-MM (en la zona horaria de votación)
 	getCurrentMonth(): string {
-		return new Date().toISOString().slice(0, 7);
+		return this.getMonthAt(new Date());
+	},
+
+	// Obtener el mes de una fecha en formato YYYY-MM (en la zona horaria de votación)
+	getMonthAt(date: Date): string {
+		const parts = new Intl.DateTimeFormat("en-US", {
+			timeZone: votingTimezone,
+			year: "numeric",
+			month: "2-digit",
+		}).formatToParts(date);
+		const year = parts.find((part) => part.type === "year")?.value;
+		const month = parts.find((part) => part.type === "month")?.value;
+		return `${year}-${month}`;
+	},
+
+	// Obtener el mes siguiente a uno dado en formato YYYY-MM
+	getNextMonth(month: string): string {
+		const [year, monthNumber] = month.split("-").map(Number);
+		const date = new Date(Date.UTC(year ?? 1970, monthNumber ?? 1, 1));
+		return date.toISOString().slice(0, 7);
+	},
+
+	// Obtener el mes anterior a uno dado en formato YYYY-MM
+	getPreviousMonth(month: string): string {
+		const [year, monthNumber] = month.split("-").map(Number);
+		const date = new Date(Date.UTC(year ?? 1970, (monthNumber ?? 1) - 2, 1));
+		return date.toISOString().slice(0, 7);
 	},
 
 	// Obtener ranking completo con estadísticas del mes actual
-	async getCompleteRanking() {
+	async getCompleteRanking(algorithm: RankingAlgorithm = "competition") {
+		return await this.getCurrentRanking(algorithm, null);
+	},
+
+	// Obtener ranking del top N con estadísticas (opcionalmente solo de una etiqueta)
+	async getTopRankingWithStats(
+		limit: number = 20,
+		algorithm: RankingAlgorithm = "competition",
+		tag: string | null = null,
+	) {
+		return await this.getCurrentRanking(algorithm, limit, tag);
+	},
+
+	// Ranking histórico total (total_votes) con los puntos del mes actual.
+	// Los totales y votantes históricos salen de la vista language_rankings;
+	// los lenguajes archivados no aparecen en el ranking vivo.
+	// Con tag, las posiciones se calculan solo entre los lenguajes de esa etiqueta
+	async getCurrentRanking(
+		algorithm: RankingAlgorithm,
+		limit: number | null,
+		tag: string | null = null,
+	) {
 		const currentMonth = this.getCurrentMonth();
+		const rules = await ruleQueries.getRulesForMonth(currentMonth);
+		const monthScore = scoringAggregations[rules.scoring_strategy](rules);
 
-		const result = await db`
+		const source = db`
       SELECT 
-        l.*,
+        lr.*,
         COALESCE(current_month_votes.points, 0) as current_month_points,
         COALESCE(current_month_votes.voters, 0) as current_month_voters,
-        ROW_NUMBER() OVER (ORDER BY l.total_votes DESC, l.name ASC) as rank_position
-      FROM languages l
+        lr.total_votes as ranking_points,
+        lr.total_voters as ranking_voters
+      FROM language_rankings lr
       LEFT JOIN (
         SELECT 
           language_id,
-          SUM(points) as points,
+          ${monthScore} as points,
           COUNT(DISTINCT user_id) as voters
         FROM votes 
         WHERE vote_month = ${currentMonth}
         GROUP BY language_id
-      ) current_month_votes ON l.id = current_month_votes.language_id
-      ORDER BY l.total_votes DESC, l.name ASC
+      ) current_month_votes ON lr.id = current_month_votes.language_id
+      WHERE lr.archived_at IS NULL
+        AND ${tag === null ? db`TRUE` : db`${tag} = ANY(lr.tags)`}
     `;
 
-		return result;
+		return await rankLanguages(
+			db,
+			source,
+			db`SELECT COUNT(DISTINCT user_id) FROM votes`,
+			algorithm,
+			limit,
+		);
 	},
 
-	// Obtener ranking del top N con estadísticas
-	async getTopRankingWithStats(limit: number = 20) {
+	// Totales actuales de unos lenguajes (total histórico y puntos del mes actual)
+	async getLanguagesCurrentTotals(languageIds: number[]): Promise<
+		{
+			id: number;
+			total_votes: number;
+			current_month_points: number;
+			current_month_voters: number;
+		}[]
+	> {
+		if (languageIds.length === 0) return [];
+
 		const currentMonth = this.getCurrentMonth();
+		const rules = await ruleQueries.getRulesForMonth(currentMonth);
+		const monthScore = scoringAggregations[rules.scoring_strategy](rules);
 
 		const result = await db`
+      SELECT
+        l.id,
+        l.total_votes,
+        COALESCE(current_month_votes.points, 0)::int as current_month_points,
+        COALESCE(current_month_votes.voters, 0)::int as current_month_voters
+      FROM languages l
+      LEFT JOIN (
+        SELECT
+          language_id,
+          ${monthScore} as points,
+          COUNT(DISTINCT user_id) as voters
+        FROM votes
+        WHERE vote_month = ${currentMonth} AND language_id IN ${db(languageIds)}
+        GROUP BY language_id
+      ) current_month_votes ON l.id = current_month_votes.language_id
+      WHERE l.id IN ${db(languageIds)}
+    `;
+
+		return result as unknown as {
+			id: number;
+			total_votes: number;
+			current_month_points: number;
+			current_month_voters: number;
+		}[];
+	},
+
+	// Obtener ranking por ventana móvil de meses y/o con decaimiento exponencial.
+	// Cada fila de votos puntúa según la estrategia de su mes (vote_score) y,
+	// con decaimiento, pesa 0.5^(meses de antigüedad / vida media)
+	async getRollingRanking(options: {
+		fromMonth: string | null;
+		halfLifeMonths: number | null;
+		algorithm: RankingAlgorithm;
+		limit: number;
+		tag?: string | null;
+	}) {
+		const currentMonth = this.getCurrentMonth();
+		const [currentYear, currentMonthNumber] = currentMonth
+			.split("-")
+			.map(Number);
+		const currentIndex = (currentYear ?? 1970) * 12 + (currentMonthNumber ?? 1);
+
+		const weight = options.halfLifeMonths
+			? db`POWER(0.5, (${currentIndex} - (substr(v.vote_month, 1, 4)::int * 12 + substr(v.vote_month, 6, 2)::int)) / ${options.halfLifeMonths}::float8)`
+			: db`1`;
+		const windowFilter = options.fromMonth
+			? db`v.vote_month >= ${options.fromMonth}`
+			: db`TRUE`;
+
+		const source = db`
       SELECT 
         l.*,
-        COALESCE(current_month_votes.points, 0) as current_month_points,
-        COALESCE(current_month_votes.voters, 0) as current_month_voters,
-        ROW_NUMBER() OVER (ORDER BY l.total_votes DESC, l.name ASC) as rank_position
+        COALESCE(window_votes.score, 0) as window_score,
+        COALESCE(window_votes.voters, 0) as window_voters,
+        COALESCE(window_votes.score, 0) as ranking_points,
+        COALESCE(window_votes.voters, 0) as ranking_voters
       FROM languages l
       LEFT JOIN (
         SELECT 
-          language_id,
-          SUM(points) as points,
-          COUNT(DISTINCT user_id) as voters
-        FROM votes 
+          v.language_id,
+          ROUND(SUM(
+            vote_score(COALESCE(r.scoring_strategy, 'linear'), v.points, COALESCE(r.points_budget, 10))
+            * ${weight}
+          )::numeric, 2)::float8 as score,
+          COUNT(DISTINCT v.user_id)::int as voters
+        FROM votes v
+        LEFT JOIN voting_rules r ON r.vote_month = v.vote_month
+        WHERE ${windowFilter}
+        GROUP BY v.language_id
+      ) window_votes ON l.id = window_votes.language_id
+      WHERE l.archived_at IS NULL
+        AND ${options.tag ? db`${options.tag} = ANY(l.tags)` : db`TRUE`}
+    `;
+
+		return await rankLanguages(
+			db,
+			source,
+			db`SELECT COUNT(DISTINCT v.user_id) FROM votes v WHERE ${windowFilter}`,
+			options.algorithm,
+			options.limit,
+		);
+	},
+
+	// Ranking agregado por familia (los lenguajes sin familia cuentan como la suya propia):
+	// suma de totales históricos y puntos del mes, votantes distintos de toda la familia
+	async getFamilyRanking(algorithm: RankingAlgorithm) {
+		const currentMonth = this.getCurrentMonth();
+		const rules = await ruleQueries.getRulesForMonth(currentMonth);
+		const monthScore = scoringAggregations[rules.scoring_strategy](rules);
+
+		const source = db`
+      SELECT
+        COALESCE(l.family, l.name) as name,
+        COUNT(*)::int as language_count,
+        json_agg(
+          json_build_object(
+            'id', l.id,
+            'name', l.name,
+            'color', l.color,
+            'total_votes', l.total_votes
+          )
+          ORDER BY l.total_votes DESC, l.name ASC
+        ) as languages,
+        SUM(l.total_votes)::int as total_votes,
+        COALESCE(SUM(current_month_votes.points), 0) as current_month_points,
+        COALESCE(MAX(family_voters.voters), 0) as total_voters,
+        SUM(l.total_votes) as ranking_points,
+        COALESCE(MAX(family_voters.voters), 0) as ranking_voters
+      FROM languages l
+      LEFT JOIN (
+        SELECT language_id, ${monthScore} as points
+        FROM votes
         WHERE vote_month = ${currentMonth}
         GROUP BY language_id
       ) current_month_votes ON l.id = current_month_votes.language_id
-      ORDER BY l.total_votes DESC, l.name ASC
-      LIMIT ${limit}
+      LEFT JOIN (
+        SELECT COALESCE(fl.family, fl.name) as family, COUNT(DISTINCT v.user_id)::int as voters
+        FROM votes v
+        JOIN languages fl ON fl.id = v.language_id
+        WHERE fl.archived_at IS NULL
+        GROUP BY COALESCE(fl.family, fl.name)
+      ) family_voters ON family_voters.family = COALESCE(l.family, l.name)
+      WHERE l.archived_at IS NULL
+      GROUP BY COALESCE(l.family, l.name)
     `;
 
-		return result;
+		return await rankLanguages(
+			db,
+			source,
+			db`SELECT COUNT(DISTINCT user_id) FROM votes`,
+			algorithm,
+			null,
+		);
 	},
 
 	// Obtener estadísticas generales de la base de datos
@@ -418,27 +2040,40 @@ export const dbUtils = {
 		return result.map((row) => row.vote_month as string);
 	},
 
-	// Obtener ranking histórico por mes
-	async getMonthlyRanking(month: string) {
-		const result = await db`
+	// Obtener ranking histórico por mes (calculado en vivo desde votes)
+	async getMonthlyRanking(
+		month: string,
+		algorithm: RankingAlgorithm = "competition",
+		sql: DbClient = db,
+	) {
+		const rules = await ruleQueries.getRulesForMonth(month, sql);
+		const monthScore = scoringAggregations[rules.scoring_strategy](rules);
+
+		const source = sql`
       SELECT 
         l.*,
         COALESCE(monthly_votes.points, 0) as month_points,
         COALESCE(monthly_votes.voters, 0) as month_voters,
-        ROW_NUMBER() OVER (ORDER BY COALESCE(monthly_votes.points, 0) DESC, l.name ASC) as month_rank
+        COALESCE(monthly_votes.points, 0) as ranking_points,
+        COALESCE(monthly_votes.voters, 0) as ranking_voters
       FROM languages l
       LEFT JOIN (
         SELECT 
           language_id,
-          SUM(points) as points,
+          ${monthScore} as points,
           COUNT(DISTINCT user_id) as voters
         FROM votes 
         WHERE vote_month = ${month}
         GROUP BY language_id
       ) monthly_votes ON l.id = monthly_votes.language_id
-      ORDER BY COALESCE(monthly_votes.points, 0) DESC, l.name ASC
     `;
 
-		return result;
+		return await rankLanguages(
+			sql,
+			source,
+			sql`SELECT COUNT(DISTINCT user_id) FROM votes WHERE vote_month = ${month}`,
+			algorithm,
+			null,
+		);
 	},
 };
@@ -149,8 +149,19 @@ export async function cleanTables() {
 // Función para eliminar todas las tablas (desarrollo)
 export async function dropTables() {
 	try {
+		await db`DROP TABLE IF EXISTS refresh_tokens CASCADE`;
+		await db`DROP TABLE IF EXISTS sessions CASCADE`;
+		await db`DROP TABLE IF EXISTS user_identities CASCADE`;
+		await db`DROP TABLE IF EXISTS language_revisions CASCADE`;
+		await db`DROP TABLE IF EXISTS language_suggestion_votes CASCADE`;
+		await db`DROP TABLE IF EXISTS language_suggestions CASCADE`;
+		await db`DROP TABLE IF EXISTS language_redirects CASCADE`;
+		await db`DROP TABLE IF EXISTS language_aliases CASCADE`;
+		await db`DROP TABLE IF EXISTS ranking_snapshots CASCADE`;
+		await db`DROP TABLE IF EXISTS voting_rules CASCADE`;
 		await db`DROP TABLE IF EXISTS votes CASCADE`;
 		await db`DROP TABLE IF EXISTS user_monthly_votes CASCADE`;
+		await db`DROP TABLE IF EXISTS voting_periods CASCADE`;
 		await db`DROP TABLE IF EXISTS users CASCADE`;
 		await db`DROP TABLE IF EXISTS languages CASCADE`;
 		await db`DROP TABLE IF EXISTS migrations CASCADE`;
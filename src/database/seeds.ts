@@ -1,4 +1,5 @@
 import { db } from "./database";
+import type { LanguageTyping } from "./queries";
 
 // Datos de lenguajes de programación
 const languages = [
@@ -337,24 +338,446 @@ const languages = [
 	},
 ];
 
+// Alias con los que también se encuentra cada lenguaje en la búsqueda
+const languageAliases: Record<string, string[]> = {
+	JavaScript: ["js", "ecmascript", "node", "nodejs"],
+	Python: ["py", "python3"],
+	TypeScript: ["ts"],
+	"C++": ["cpp", "cplusplus"],
+	"C#": ["csharp", "cs", "dotnet"],
+	Go: ["golang"],
+	Rust: ["rs"],
+	Kotlin: ["kt"],
+	Ruby: ["rb"],
+	"F#": ["fsharp"],
+	Haskell: ["hs"],
+	Elixir: ["ex"],
+	Erlang: ["erl"],
+	"Common Lisp": ["lisp", "cl"],
+	"Visual Basic": ["vb", "vb.net"],
+	CoffeeScript: ["coffee"],
+	ReasonML: ["reason"],
+	Mathematica: ["wolfram"],
+	PowerShell: ["pwsh", "ps"],
+	Bash: ["sh", "shell"],
+	Assembly: ["asm"],
+	WebAssembly: ["wasm"],
+	Solidity: ["sol"],
+	OCaml: ["ml"],
+};
+
+interface LanguageTaxonomy {
+	paradigms: string[];
+	typing: LanguageTyping | null;
+	year: number;
+	tags: string[];
+	// Ecosistema (JVM, BEAM, .NET...); sin familia el lenguaje va por su cuenta
+	family?: string;
+	// Lenguaje del que deriva
+	parent?: string;
+}
+
+// Paradigmas, tipado, año de la primera versión, etiquetas y familia de cada lenguaje
+const languageTaxonomy: Record<string, LanguageTaxonomy> = {
+	JavaScript: {
+		paradigms: ["object-oriented", "functional", "imperative"],
+		typing: "dynamic",
+		year: 1995,
+		tags: ["web", "scripting"],
+		family: "JavaScript",
+	},
+	Python: {
+		paradigms: ["object-oriented", "functional", "imperative"],
+		typing: "dynamic",
+		year: 1991,
+		tags: ["data", "web", "scripting", "scientific"],
+	},
+	TypeScript: {
+		paradigms: ["object-oriented", "functional", "imperative"],
+		typing: "gradual",
+		year: 2012,
+		tags: ["web"],
+		family: "JavaScript",
+		parent: "JavaScript",
+	},
+	Java: {
+		paradigms: ["object-oriented", "imperative"],
+		typing: "static",
+		year: 1995,
+		tags: ["enterprise", "mobile", "web"],
+		family: "JVM",
+	},
+	"C++": {
+		paradigms: ["object-oriented", "procedural", "generic"],
+		typing: "static",
+		year: 1985,
+		tags: ["systems", "game"],
+		family: "C",
+		parent: "C",
+	},
+	"C#": {
+		paradigms: ["object-oriented", "functional", "imperative"],
+		typing: "static",
+		year: 2000,
+		tags: ["enterprise", "game", "web"],
+		family: ".NET",
+	},
+	Go: {
+		paradigms: ["imperative", "concurrent"],
+		typing: "static",
+		year: 2009,
+		tags: ["systems", "web", "cloud"],
+	},
+	Rust: {
+		paradigms: ["imperative", "functional", "concurrent"],
+		typing: "static",
+		year: 2015,
+		tags: ["systems", "embedded", "web"],
+	},
+	PHP: {
+		paradigms: ["object-oriented", "imperative"],
+		typing: "dynamic",
+		year: 1995,
+		tags: ["web"],
+	},
+	Swift: {
+		paradigms: ["object-oriented", "functional"],
+		typing: "static",
+		year: 2014,
+		tags: ["mobile"],
+	},
+	Kotlin: {
+		paradigms: ["object-oriented", "functional"],
+		typing: "static",
+		year: 2011,
+		tags: ["mobile", "enterprise"],
+		family: "JVM",
+	},
+	Ruby: {
+		paradigms: ["object-oriented", "functional"],
+		typing: "dynamic",
+		year: 1995,
+		tags: ["web", "scripting"],
+	},
+	C: {
+		paradigms: ["procedural", "imperative"],
+		typing: "static",
+		year: 1972,
+		tags: ["systems", "embedded"],
+		family: "C",
+	},
+	Dart: {
+		paradigms: ["object-oriented"],
+		typing: "static",
+		year: 2011,
+		tags: ["mobile", "web"],
+	},
+	Scala: {
+		paradigms: ["functional", "object-oriented"],
+		typing: "static",
+		year: 2004,
+		tags: ["data", "enterprise"],
+		family: "JVM",
+	},
+	R: {
+		paradigms: ["functional", "imperative"],
+		typing: "dynamic",
+		year: 1993,
+		tags: ["data", "scientific"],
+	},
+	Perl: {
+		paradigms: ["procedural", "object-oriented"],
+		typing: "dynamic",
+		year: 1987,
+		tags: ["scripting"],
+	},
+	Lua: {
+		paradigms: ["procedural", "imperative"],
+		typing: "dynamic",
+		year: 1993,
+		tags: ["scripting", "game", "embedded"],
+	},
+	Haskell: {
+		paradigms: ["functional"],
+		typing: "static",
+		year: 1990,
+		tags: ["academic"],
+		family: "ML",
+	},
+	Elixir: {
+		paradigms: ["functional", "concurrent"],
+		typing: "dynamic",
+		year: 2012,
+		tags: ["web", "distributed"],
+		family: "BEAM",
+	},
+	"F#": {
+		paradigms: ["functional", "object-oriented"],
+		typing: "static",
+		year: 2005,
+		tags: ["data", "enterprise"],
+		family: ".NET",
+		parent: "OCaml",
+	},
+	Clojure: {
+		paradigms: ["functional"],
+		typing: "dynamic",
+		year: 2007,
+		tags: ["data", "web"],
+		family: "JVM",
+	},
+	Julia: {
+		paradigms: ["functional", "imperative"],
+		typing: "dynamic",
+		year: 2012,
+		tags: ["scientific", "data"],
+	},
+	Erlang: {
+		paradigms: ["functional", "concurrent"],
+		typing: "dynamic",
+		year: 1986,
+		tags: ["distributed"],
+		family: "BEAM",
+	},
+	OCaml: {
+		paradigms: ["functional", "imperative", "object-oriented"],
+		typing: "static",
+		year: 1996,
+		tags: ["academic", "systems"],
+		family: "ML",
+	},
+	Nim: {
+		paradigms: ["imperative", "procedural"],
+		typing: "static",
+		year: 2008,
+		tags: ["systems"],
+	},
+	Crystal: {
+		paradigms: ["object-oriented"],
+		typing: "static",
+		year: 2014,
+		tags: ["web"],
+	},
+	Zig: {
+		paradigms: ["imperative", "procedural"],
+		typing: "static",
+		year: 2016,
+		tags: ["systems", "embedded"],
+	},
+	D: {
+		paradigms: ["object-oriented", "imperative"],
+		typing: "static",
+		year: 2001,
+		tags: ["systems"],
+		family: "C",
+	},
+	Ada: {
+		paradigms: ["procedural", "object-oriented"],
+		typing: "static",
+		year: 1980,
+		tags: ["embedded", "systems"],
+		family: "Pascal",
+	},
+	Fortran: {
+		paradigms: ["procedural", "imperative"],
+		typing: "static",
+		year: 1957,
+		tags: ["scientific"],
+	},
+	COBOL: {
+		paradigms: ["procedural"],
+		typing: "static",
+		year: 1959,
+		tags: ["enterprise"],
+	},
+	Pascal: {
+		paradigms: ["procedural", "imperative"],
+		typing: "static",
+		year: 1970,
+		tags: ["education"],
+		family: "Pascal",
+	},
+	Delphi: {
+		paradigms: ["object-oriented", "procedural"],
+		typing: "static",
+		year: 1995,
+		tags: ["desktop"],
+		family: "Pascal",
+		parent: "Pascal",
+	},
+	"Visual Basic": {
+		paradigms: ["object-oriented", "imperative"],
+		typing: "static",
+		year: 1991,
+		tags: ["desktop", "enterprise"],
+		family: ".NET",
+	},
+	Groovy: {
+		paradigms: ["object-oriented", "functional"],
+		typing: "dynamic",
+		year: 2003,
+		tags: ["scripting"],
+		family: "JVM",
+	},
+	ActionScript: {
+		paradigms: ["object-oriented"],
+		typing: "gradual",
+		year: 1998,
+		tags: ["web", "game"],
+		family: "JavaScript",
+	},
+	CoffeeScript: {
+		paradigms: ["functional", "object-oriented"],
+		typing: "dynamic",
+		year: 2009,
+		tags: ["web"],
+		family: "JavaScript",
+		parent: "JavaScript",
+	},
+	Elm: {
+		paradigms: ["functional"],
+		typing: "static",
+		year: 2012,
+		tags: ["web"],
+		family: "ML",
+	},
+	PureScript: {
+		paradigms: ["functional"],
+		typing: "static",
+		year: 2013,
+		tags: ["web"],
+		family: "ML",
+	},
+	ReasonML: {
+		paradigms: ["functional"],
+		typing: "static",
+		year: 2016,
+		tags: ["web"],
+		family: "ML",
+		parent: "OCaml",
+	},
+	Racket: {
+		paradigms: ["functional"],
+		typing: "dynamic",
+		year: 1995,
+		tags: ["education", "academic"],
+		family: "Lisp",
+		parent: "Scheme",
+	},
+	Scheme: {
+		paradigms: ["functional"],
+		typing: "dynamic",
+		year: 1975,
+		tags: ["education", "academic"],
+		family: "Lisp",
+	},
+	"Common Lisp": {
+		paradigms: ["functional", "object-oriented"],
+		typing: "dynamic",
+		year: 1984,
+		tags: ["academic"],
+		family: "Lisp",
+	},
+	Prolog: {
+		paradigms: ["logic", "declarative"],
+		typing: "dynamic",
+		year: 1972,
+		tags: ["academic"],
+	},
+	MATLAB: {
+		paradigms: ["imperative", "array"],
+		typing: "dynamic",
+		year: 1984,
+		tags: ["scientific", "data"],
+	},
+	Mathematica: {
+		paradigms: ["functional", "declarative"],
+		typing: "dynamic",
+		year: 1988,
+		tags: ["scientific"],
+	},
+	Tcl: {
+		paradigms: ["imperative", "procedural"],
+		typing: "dynamic",
+		year: 1988,
+		tags: ["scripting"],
+	},
+	PowerShell: {
+		paradigms: ["imperative", "object-oriented"],
+		typing: "dynamic",
+		year: 2006,
+		tags: ["scripting", "devops"],
+		family: "Shell",
+	},
+	Bash: {
+		paradigms: ["imperative", "procedural"],
+		typing: "dynamic",
+		year: 1989,
+		tags: ["scripting", "devops"],
+		family: "Shell",
+	},
+	Assembly: {
+		paradigms: ["imperative"],
+		typing: null,
+		year: 1949,
+		tags: ["systems", "embedded"],
+	},
+	WebAssembly: {
+		paradigms: ["imperative"],
+		typing: "static",
+		year: 2017,
+		tags: ["web", "systems"],
+	},
+	Solidity: {
+		paradigms: ["object-oriented", "imperative"],
+		typing: "static",
+		year: 2014,
+		tags: ["blockchain"],
+		family: "Smart contracts",
+	},
+	Move: {
+		paradigms: ["imperative"],
+		typing: "static",
+		year: 2019,
+		tags: ["blockchain"],
+		family: "Smart contracts",
+	},
+	Cairo: {
+		paradigms: ["imperative", "functional"],
+		typing: "static",
+		year: 2020,
+		tags: ["blockchain"],
+		family: "Smart contracts",
+	},
+};
+
 export async function seedLanguages() {
 	console.log("🌱 Seeding languages...");
 
 	try {
-		let insertedCount = 0;
+		const inserted: string[] = [];
 
 		for (const lang of languages) {
 			try {
-				// Usar ON CONFLICT DO NOTHING para evitar duplicados
+				// Un nombre que ya existe (sin distinguir mayúsculas) o que pertenece a un
+				// lenguaje fusionado o renombrado (redirección o alias) no se vuelve a crear
 				const result = await db`
           INSERT INTO languages (name, description, color, is_featured)
-          VALUES (${lang.name}, ${lang.description}, ${lang.color}, ${lang.is_featured})
-          ON CONFLICT (name) DO NOTHING
+          SELECT ${lang.name}, ${lang.description}, ${lang.color}, ${lang.is_featured}
+          WHERE NOT EXISTS (
+            SELECT 1 FROM language_redirects
+            WHERE lower(old_name) = lower(${lang.name})
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM language_aliases
+            WHERE lower(alias) = lower(${lang.name})
+          )
+          ON CONFLICT DO NOTHING
           RETURNING id
         `;
 
 				if (result.length > 0) {
-					insertedCount++;
+					inserted.push(lang.name);
 				}
 			} catch (error) {
 				console.warn(`Warning: Could not insert language ${lang.name}:`, error);
@@ -362,14 +785,93 @@ export async function seedLanguages() {
 		}
 
 		console.log(
-			`✅ Seeded ${insertedCount} new languages (${languages.length} total in seed data)`,
+			`✅ Seeded ${inserted.length} new languages (${languages.length} total in seed data)`,
 		);
+
+		// La taxonomía solo se rellena al crear el lenguaje
+		if (inserted.length > 0) {
+			await seedLanguageTaxonomy(inserted);
+		}
 	} catch (error) {
 		console.error("Error seeding languages:", error);
 		throw error;
 	}
 }
 
+// Poblar los alias de búsqueda de los lenguajes existentes
+export async function seedLanguageAliases() {
+	console.log("🌱 Seeding language aliases...");
+
+	try {
+		let insertedCount = 0;
+
+		for (const [name, aliases] of Object.entries(languageAliases)) {
+			for (const alias of aliases) {
+				const result = await db`
+          INSERT INTO language_aliases (language_id, alias)
+          SELECT id, ${alias} FROM languages WHERE name = ${name}
+          ON CONFLICT (lower(alias)) DO NOTHING
+          RETURNING id
+        `;
+
+				if (result.length > 0) {
+					insertedCount++;
+				}
+			}
+		}
+
+		console.log(`✅ Seeded ${insertedCount} new language aliases`);
+	} catch (error) {
+		console.error("Error seeding language aliases:", error);
+		throw error;
+	}
+}
+
+// Completar la taxonomía de los lenguajes indicados (por defecto, todos los
+// de la semilla) sin pisar los valores que ya se hayan editado
+export async function seedLanguageTaxonomy(
+	names: string[] = Object.keys(languageTaxonomy),
+) {
+	console.log("🌱 Seeding language taxonomy...");
+
+	try {
+		let updatedCount = 0;
+
+		for (const name of names) {
+			const taxonomy = languageTaxonomy[name];
+			if (!taxonomy) continue;
+
+			const result = await db`
+        UPDATE languages
+        SET
+          paradigms = CASE
+            WHEN cardinality(paradigms) = 0 THEN ${db.array(taxonomy.paradigms)}::text[]
+            ELSE paradigms
+          END,
+          tags = CASE
+            WHEN cardinality(tags) = 0 THEN ${db.array(taxonomy.tags)}::text[]
+            ELSE tags
+          END,
+          typing = COALESCE(typing, ${taxonomy.typing}),
+          first_release_year = COALESCE(first_release_year, ${taxonomy.year}),
+          family = COALESCE(family, ${taxonomy.family ?? null}),
+          parent_id = COALESCE(
+            parent_id,
+            (SELECT id FROM languages WHERE name = ${taxonomy.parent ?? null})
+          )
+        WHERE name = ${name}
+      `;
+
+			updatedCount += result.count;
+		}
+
+		console.log(`✅ Seeded taxonomy for ${updatedCount} languages`);
+	} catch (error) {
+		console.error("Error seeding language taxonomy:", error);
+		throw error;
+	}
+}
+
 // Función para obtener estadísticas de lenguajes
 export async function getLanguageStats() {
 	try {
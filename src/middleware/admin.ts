@@ -37,7 +37,7 @@ export function adminAuth() {
 		// 	timestamp: new Date().toISOString(),
 		// };
 
-		return context;
+		// No devolver nada: en beforeHandle cualquier valor devuelto se usa como respuesta
 	};
 }
 
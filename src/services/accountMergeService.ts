@@ -0,0 +1,189 @@
+import { withTransaction } from "../database/database";
+import {
+	dbUtils,
+	identityQueries,
+	periodQueries,
+	revisionQueries,
+	sessionQueries,
+	suggestionQueries,
+	userQueries,
+	voteQueries,
+} from "../database/queries";
+import type { User, UserIdentity } from "../database/queries";
+import type { LanguageAdminResult } from "./languageAdminService";
+import { isPeriodOpen } from "./periodService";
+import {
+	type BallotAllocation,
+	getCombinedAllocation,
+	replaceUserAllocation,
+	validateVotingPeriod,
+} from "./voteService";
+
+export interface AccountMergePreview {
+	source: Pick<User, "id" | "username" | "avatar_url">;
+	identities: UserIdentity[];
+	month: string;
+	// false si el periodo del mes no está abierto: los votos se quedan en source
+	combinesVotes: boolean;
+	budget: number;
+	current: BallotAllocation;
+	incoming: BallotAllocation;
+	combined: BallotAllocation;
+}
+
+export interface AccountMergeResult {
+	identities: UserIdentity[];
+	allocation: BallotAllocation;
+	combinesVotes: boolean;
+}
+
+// Comprueba que source se pueda fusionar en target
+function validateMergeUsers(
+	target: User | null,
+	source: User | null,
+): LanguageAdminResult<never> {
+	if (!target || !source) {
+		return { isValid: false, notFound: true, error: "Account not found" };
+	}
+	if (target.id === source.id) {
+		return { isValid: false, error: "Cannot merge an account into itself" };
+	}
+	if (source.merged_into || target.merged_into) {
+		return {
+			isValid: false,
+			conflict: true,
+			error: "This account has already been merged",
+		};
+	}
+	return { isValid: true };
+}
+
+/**
+ * Qué pasaría al fusionar source en target: identidades que se mueven y
+ * reparto del mes resultante
+ */
+export async function previewAccountMerge(
+	targetUserId: number,
+	sourceUserId: number,
+): Promise<LanguageAdminResult<AccountMergePreview>> {
+	const target = await userQueries.getUserById(targetUserId);
+	const source = await userQueries.getUserById(sourceUserId);
+	const validation = validateMergeUsers(target, source);
+	if (!validation.isValid || !source) {
+		return validation;
+	}
+
+	const month = dbUtils.getCurrentMonth();
+	const { budget, ...allocations } = await getCombinedAllocation(
+		targetUserId,
+		sourceUserId,
+		month,
+	);
+	const combinesVotes = isPeriodOpen(await periodQueries.getPeriod(month));
+
+	return {
+		isValid: true,
+		result: {
+			source: {
+				id: source.id,
+				username: source.username,
+				avatar_url: source.avatar_url,
+			},
+			identities: await identityQueries.getUserIdentities(sourceUserId),
+			month,
+			combinesVotes,
+			budget,
+			current: allocations.target,
+			incoming: allocations.source,
+			combined: combinesVotes ? allocations.combined : allocations.target,
+		},
+	};
+}
+
+/**
+ * Fusiona source en target: identidades, sugerencias y revisiones pasan a
+ * target, y los votos del mes en curso se suman a los de target sin
+ * superar su presupuesto. Los meses anteriores quedan como estaban
+ * (con sus rankings ya cerrados) y source no puede volver a iniciar sesión
+ * ni seguir usando las sesiones que tenía abiertas
+ */
+export async function mergeAccounts(
+	targetUserId: number,
+	sourceUserId: number,
+): Promise<LanguageAdminResult<AccountMergeResult>> {
+	return await withTransaction(
+		async (sql): Promise<LanguageAdminResult<AccountMergeResult>> => {
+			// Bloquear siempre en el mismo orden para no provocar deadlocks
+			const [firstId, secondId] = [targetUserId, sourceUserId].sort(
+				(a, b) => a - b,
+			) as [number, number];
+			const first = await userQueries.getUserForUpdate(firstId, sql);
+			const second = await userQueries.getUserForUpdate(secondId, sql);
+			const target = firstId === targetUserId ? first : second;
+			const source = firstId === targetUserId ? second : first;
+
+			const validation = validateMergeUsers(target, source);
+			if (!validation.isValid) {
+				return validation;
+			}
+
+			const month = dbUtils.getCurrentMonth();
+			// El periodo queda bloqueado para que no se cierre a mitad de la fusión
+			const combinesVotes = (await validateVotingPeriod(month, sql)).isValid;
+			let allocation: BallotAllocation;
+
+			if (combinesVotes) {
+				await voteQueries.lockUserMonth(firstId, month, sql);
+				await voteQueries.lockUserMonth(secondId, month, sql);
+
+				const { combined, source: incoming } = await getCombinedAllocation(
+					targetUserId,
+					sourceUserId,
+					month,
+					sql,
+				);
+				allocation = await replaceUserAllocation(
+					targetUserId,
+					combined,
+					month,
+					sql,
+				);
+				// Lo que no cupo en el presupuesto de target se descarta
+				for (const languageId of Object.keys(incoming).map(Number)) {
+					await voteQueries.removeLanguageVotes(
+						sourceUserId,
+						languageId,
+						month,
+						sql,
+					);
+				}
+				await voteQueries.syncUserMonthlyTotals(sourceUserId, month, sql);
+			} else {
+				allocation = await voteQueries.getUserAllocation(
+					targetUserId,
+					month,
+					sql,
+				);
+			}
+
+			await identityQueries.transferIdentities(sourceUserId, targetUserId, sql);
+			await suggestionQueries.transferUser(sourceUserId, targetUserId, sql);
+			await revisionQueries.transferAuthor(sourceUserId, targetUserId, sql);
+			await userQueries.markMerged(sourceUserId, targetUserId, sql);
+			// Las sesiones abiertas con la cuenta fusionada dejan de valer
+			await sessionQueries.revokeUserSessions(sourceUserId, sql);
+
+			return {
+				isValid: true,
+				result: {
+					identities: await identityQueries.getUserIdentities(
+						targetUserId,
+						sql,
+					),
+					allocation,
+					combinesVotes,
+				},
+			};
+		},
+	);
+}
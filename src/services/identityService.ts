@@ -0,0 +1,121 @@
+import type { IdentityProfile } from "../auth/provider";
+import { withTransaction } from "../database/database";
+import { identityQueries, userQueries } from "../database/queries";
+import type { User, UserIdentity } from "../database/queries";
+import type { LanguageAdminResult } from "./languageAdminService";
+
+/**
+ * Inicia sesión con una identidad externa: si ya está enlazada se actualiza
+ * el perfil del usuario; si no, se crea un usuario nuevo con esa identidad
+ */
+export async function signInWithIdentity(
+	profile: IdentityProfile,
+): Promise<User> {
+	return await withTransaction(async (sql): Promise<User> => {
+		const identity = await identityQueries.getIdentityForUpdate(
+			profile.provider,
+			profile.subject,
+			sql,
+		);
+
+		if (identity) {
+			await identityQueries.touchIdentity(
+				identity.id,
+				profile.username,
+				profile.email,
+				sql,
+			);
+			return await userQueries.updateProfile(
+				identity.user_id,
+				profile.username,
+				profile.avatarUrl,
+				sql,
+			);
+		}
+
+		const user = await userQueries.createUser(
+			profile.username,
+			profile.avatarUrl,
+			sql,
+		);
+		const created = await identityQueries.createIdentity(user.id, profile, sql);
+		if (!created) {
+			// Dos logins simultáneos de la misma identidad nueva: se deshace
+			// este usuario y el siguiente intento entrará por la rama de arriba
+			throw new Error("Identity was linked by a concurrent login");
+		}
+		return user;
+	});
+}
+
+export type LinkIdentityResult =
+	| { status: "linked" | "already_linked" }
+	// La identidad es de otra cuenta: se puede ofrecer fusionarla
+	| { status: "other_account"; ownerId: number };
+
+/**
+ * Enlaza una identidad externa a la cuenta de un usuario con sesión
+ */
+export async function linkIdentity(
+	userId: number,
+	profile: IdentityProfile,
+): Promise<LinkIdentityResult> {
+	return await withTransaction(async (sql): Promise<LinkIdentityResult> => {
+		const identity = await identityQueries.getIdentityForUpdate(
+			profile.provider,
+			profile.subject,
+			sql,
+		);
+
+		if (identity) {
+			if (identity.user_id !== userId) {
+				return { status: "other_account", ownerId: identity.user_id };
+			}
+			await identityQueries.touchIdentity(
+				identity.id,
+				profile.username,
+				profile.email,
+				sql,
+			);
+			return { status: "already_linked" };
+		}
+
+		const created = await identityQueries.createIdentity(userId, profile, sql);
+		if (!created) {
+			throw new Error("Identity was linked by a concurrent login");
+		}
+		return { status: "linked" };
+	});
+}
+
+/**
+ * Desenlaza una identidad de la cuenta. La última no se puede quitar:
+ * el usuario se quedaría sin forma de iniciar sesión
+ */
+export async function unlinkIdentity(
+	userId: number,
+	identityId: number,
+): Promise<LanguageAdminResult<UserIdentity[]>> {
+	return await withTransaction(
+		async (sql): Promise<LanguageAdminResult<UserIdentity[]>> => {
+			const identities = await identityQueries.lockUserIdentities(userId, sql);
+			if (!identities.some((identity) => identity.id === identityId)) {
+				return { isValid: false, notFound: true, error: "Identity not found" };
+			}
+			if (identities.length <= 1) {
+				return {
+					isValid: false,
+					conflict: true,
+					error:
+						"You cannot unlink your last sign-in method. Link another account first.",
+				};
+			}
+
+			await identityQueries.deleteIdentity(identityId, sql);
+			return {
+				isValid: true,
+				result: identities.filter((identity) => identity.id !== identityId),
+			};
+		},
+	);
+}
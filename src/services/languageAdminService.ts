@@ -0,0 +1,542 @@
+import { withTransaction } from "../database/database";
+import {
+	aliasQueries,
+	languageQueries,
+	redirectQueries,
+	revisionQueries,
+	suggestionQueries,
+	voteQueries,
+} from "../database/queries";
+import type {
+	Language,
+	LanguageAlias,
+	LanguageInput,
+	RevisionDiff,
+	RevisionField,
+	VotingRules,
+} from "../database/queries";
+import { refreshRankingData } from "./rankingCache";
+import { getPointsBudget, getVotingRules } from "./rulesService";
+import { getScoringStrategy } from "./voteService";
+
+export interface LanguageAdminResult<T> {
+	isValid: boolean;
+	error?: string;
+	// El lenguaje (o alias) indicado no existe
+	notFound?: boolean;
+	// Choca con un dato único existente (p. ej. el nombre)
+	conflict?: boolean;
+	result?: T;
+}
+
+// Usuario que había votado a los dos lenguajes en el mismo mes
+export interface MergeConflict {
+	user_id: number;
+	vote_month: string;
+	source_points: number;
+	target_points: number;
+	merged_points: number;
+	// El valor combinado se recortó para no superar el presupuesto del mes
+	budget_limited: boolean;
+}
+
+export interface MergeSummary {
+	source_id: number;
+	target_id: number;
+	moved_allocations: number;
+	conflicts: MergeConflict[];
+	total_votes: number;
+}
+
+const MAX_ALIAS_LENGTH = 50;
+const MAX_NAME_LENGTH = 50;
+const MAX_HOMEPAGE_LENGTH = 255;
+const HEX_COLOR_PATTERN = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+const LABEL_PATTERN = /^[a-z0-9][a-z0-9+#.-]{0,29}$/;
+const MAX_LABELS = 10;
+const MIN_RELEASE_YEAR = 1940;
+const MAX_PARENT_DEPTH = 20;
+
+// Campos que se versionan en language_revisions
+export const REVISION_FIELDS: RevisionField[] = ["description", "color"];
+
+export function isHexColor(value: string): boolean {
+	return HEX_COLOR_PATTERN.test(value);
+}
+
+// Etiqueta o paradigma: minúsculas, dígitos y + # . -
+export function isLabel(value: string): boolean {
+	return LABEL_PATTERN.test(value);
+}
+
+export function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === "http:" || url.protocol === "https:";
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Diferencia entre los valores actuales de un lenguaje y los propuestos,
+ * solo para los campos versionados que cambian
+ */
+export function diffLanguage(
+	language: Language,
+	changes: Partial<Record<RevisionField, string | null>>,
+): RevisionDiff {
+	const diff: RevisionDiff = {};
+	for (const field of REVISION_FIELDS) {
+		const to = changes[field];
+		if (to !== undefined && to !== language[field]) {
+			diff[field] = { from: language[field], to };
+		}
+	}
+	return diff;
+}
+
+/**
+ * Fusiona un lenguaje duplicado en otro: reasigna sus votos, alias,
+ * redirecciones, revisiones y sugerencias y lo elimina. Si un usuario votó a ambos en el mismo mes,
+ * sus puntos se combinan según la estrategia del mes (recortados al máximo
+ * por lenguaje y a su presupuesto del mes) y se informa como conflicto
+ */
+export async function mergeLanguages(
+	sourceId: number,
+	targetId: number,
+): Promise<LanguageAdminResult<MergeSummary>> {
+	if (sourceId === targetId) {
+		return { isValid: false, error: "Cannot merge a language into itself" };
+	}
+
+	const outcome = await withTransaction(
+		async (sql): Promise<LanguageAdminResult<MergeSummary>> => {
+			// Bloquear siempre en el mismo orden para evitar interbloqueos entre fusiones
+			const first = await languageQueries.getLanguageForUpdate(
+				Math.min(sourceId, targetId),
+				sql,
+			);
+			const second = await languageQueries.getLanguageForUpdate(
+				Math.max(sourceId, targetId),
+				sql,
+			);
+			const source = first?.id === sourceId ? first : second;
+			if (!first || !second || !source) {
+				return {
+					isValid: false,
+					notFound: true,
+					error: "Both languages must exist",
+				};
+			}
+
+			const sourceAllocations = await voteQueries.getLanguageAllocations(
+				sourceId,
+				sql,
+			);
+			const targetAllocations = await voteQueries.getLanguageAllocations(
+				targetId,
+				sql,
+			);
+			const targetPoints = new Map(
+				targetAllocations.map((allocation) => [
+					`${allocation.user_id}:${allocation.vote_month}`,
+					allocation.points,
+				]),
+			);
+
+			const rulesByMonth = new Map<string, VotingRules>();
+			const conflicts: MergeConflict[] = [];
+			let movedAllocations = 0;
+
+			for (const allocation of sourceAllocations) {
+				const { user_id: userId, vote_month: month } = allocation;
+				await voteQueries.lockUserMonth(userId, month, sql);
+
+				const existing = targetPoints.get(`${userId}:${month}`);
+				if (existing === undefined) {
+					await voteQueries.reassignLanguageVotes(
+						userId,
+						sourceId,
+						targetId,
+						month,
+						sql,
+					);
+					movedAllocations++;
+					continue;
+				}
+
+				let rules = rulesByMonth.get(month);
+				if (!rules) {
+					rules = await getVotingRules(month, sql);
+					rulesByMonth.set(month, rules);
+				}
+				// El resto del reparto del usuario cuenta para el presupuesto
+				const userAllocation = await voteQueries.getUserAllocation(
+					userId,
+					month,
+					sql,
+				);
+				const others = Object.fromEntries(
+					Object.entries(userAllocation).filter(
+						([languageId]) =>
+							Number(languageId) !== sourceId &&
+							Number(languageId) !== targetId,
+					),
+				);
+				const budget = await getPointsBudget(userId, month, rules, sql);
+				const strategy = getScoringStrategy(rules);
+				const mergedPoints = strategy.merge(
+					allocation.points,
+					existing,
+					rules,
+					others,
+					budget,
+				);
+				const cappedPoints = strategy.merge(
+					allocation.points,
+					existing,
+					rules,
+					others,
+					Number.POSITIVE_INFINITY,
+				);
+
+				// Sustituir los votos de ambos lenguajes por uno solo con el valor combinado
+				await voteQueries.removeLanguageVotes(userId, sourceId, month, sql);
+				await voteQueries.removeLanguageVotes(userId, targetId, month, sql);
+				await voteQueries.insertVote(
+					userId,
+					targetId,
+					mergedPoints,
+					month,
+					sql,
+				);
+				await voteQueries.syncUserMonthlyTotals(userId, month, sql);
+
+				conflicts.push({
+					user_id: userId,
+					vote_month: month,
+					source_points: allocation.points,
+					target_points: existing,
+					merged_points: mergedPoints,
+					budget_limited: mergedPoints < cappedPoints,
+				});
+			}
+
+			// El nombre del duplicado sigue encontrando el lenguaje en la búsqueda
+			await aliasQueries.moveAliases(sourceId, targetId, sql);
+			await aliasQueries.addAlias(targetId, source.name, sql);
+			await redirectQueries.addRedirect(sourceId, source.name, targetId, sql);
+			// Borrar el lenguaje eliminaría su historial en cascada
+			await revisionQueries.moveRevisions(sourceId, targetId, source.name, sql);
+			await suggestionQueries.moveLanguage(sourceId, targetId, sql);
+			await languageQueries.deleteLanguage(sourceId, sql);
+
+			const totalVotes = await languageQueries.updateLanguageVotes(
+				targetId,
+				sql,
+			);
+
+			return {
+				isValid: true,
+				result: {
+					source_id: sourceId,
+					target_id: targetId,
+					moved_allocations: movedAllocations,
+					conflicts,
+					total_votes: totalVotes,
+				},
+			};
+		},
+	);
+
+	// El lenguaje eliminado debe desaparecer del ranking aunque no tuviera votos
+	if (outcome.isValid) {
+		await refreshRankingData();
+	}
+	return outcome;
+}
+
+/**
+ * Añade un alias de búsqueda a un lenguaje
+ */
+export async function addLanguageAlias(
+	languageId: number,
+	alias: string,
+): Promise<LanguageAdminResult<LanguageAlias>> {
+	const trimmed = alias.trim();
+	if (!trimmed || trimmed.length > MAX_ALIAS_LENGTH) {
+		return {
+			isValid: false,
+			error: `Alias must be between 1 and ${MAX_ALIAS_LENGTH} characters`,
+		};
+	}
+
+	const language = await languageQueries.getLanguageById(languageId);
+	if (!language) {
+		return { isValid: false, notFound: true, error: "Language not found" };
+	}
+
+	const created = await aliasQueries.addAlias(languageId, trimmed);
+	if (!created) {
+		const existing = await aliasQueries.getAlias(trimmed);
+		return {
+			isValid: false,
+			error: `Alias "${trimmed}" is already used by language ${existing?.language_id}`,
+		};
+	}
+
+	return { isValid: true, result: created };
+}
+
+/**
+ * Elimina un alias de un lenguaje
+ */
+export async function removeLanguageAlias(
+	languageId: number,
+	aliasId: number,
+): Promise<LanguageAdminResult<null>> {
+	const removed = await aliasQueries.removeAlias(languageId, aliasId);
+	if (!removed) {
+		return { isValid: false, notFound: true, error: "Alias not found" };
+	}
+	return { isValid: true, result: null };
+}
+
+/**
+ * Normaliza y valida los campos editables de un lenguaje.
+ * Devuelve los cambios listos para guardar o el primer error encontrado
+ */
+async function validateLanguageInput(
+	input: Partial<LanguageInput>,
+	languageId: number | null,
+): Promise<LanguageAdminResult<Partial<LanguageInput>>> {
+	const changes: Partial<LanguageInput> = {};
+
+	if (input.name !== undefined) {
+		const name = input.name.trim();
+		if (!name || name.length > MAX_NAME_LENGTH) {
+			return {
+				isValid: false,
+				error: `Name must be between 1 and ${MAX_NAME_LENGTH} characters`,
+			};
+		}
+
+		const existing = await languageQueries.getLanguageByName(name);
+		if (existing && existing.id !== languageId) {
+			return {
+				isValid: false,
+				conflict: true,
+				error: `Language "${existing.name}" already exists`,
+			};
+		}
+		changes.name = name;
+	}
+
+	if (input.color !== undefined) {
+		if (!isHexColor(input.color)) {
+			return {
+				isValid: false,
+				error: "Color must be a hex value like #3178c6",
+			};
+		}
+		changes.color = input.color.toLowerCase();
+	}
+
+	// Cadenas vacías borran la descripción o el logo
+	if (input.description !== undefined) {
+		changes.description = input.description?.trim() || null;
+	}
+	if (input.logo_url !== undefined) {
+		changes.logo_url = input.logo_url?.trim() || null;
+	}
+	if (input.homepage !== undefined) {
+		const homepage = input.homepage?.trim() || null;
+		if (
+			homepage &&
+			(homepage.length > MAX_HOMEPAGE_LENGTH || !isHttpUrl(homepage))
+		) {
+			return { isValid: false, error: "Homepage must be an http(s) URL" };
+		}
+		changes.homepage = homepage;
+	}
+	if (input.is_featured !== undefined) {
+		changes.is_featured = input.is_featured;
+	}
+
+	for (const field of ["tags", "paradigms"] as const) {
+		const values = input[field];
+		if (values === undefined) continue;
+
+		const labels = normalizeLabels(values);
+		if (!labels) {
+			return {
+				isValid: false,
+				error: `${field} must be at most ${MAX_LABELS} lowercase labels like "systems" or "object-oriented"`,
+			};
+		}
+		changes[field] = labels;
+	}
+
+	if (input.typing !== undefined) {
+		changes.typing = input.typing;
+	}
+
+	if (input.first_release_year !== undefined) {
+		const year = input.first_release_year;
+		const currentYear = new Date().getFullYear();
+		if (year !== null && (year < MIN_RELEASE_YEAR || year > currentYear)) {
+			return {
+				isValid: false,
+				error: `First release year must be between ${MIN_RELEASE_YEAR} and ${currentYear}`,
+			};
+		}
+		changes.first_release_year = year;
+	}
+
+	if (input.family !== undefined) {
+		const family = input.family?.trim() || null;
+		if (family && family.length > MAX_NAME_LENGTH) {
+			return {
+				isValid: false,
+				error: `Family must be at most ${MAX_NAME_LENGTH} characters`,
+			};
+		}
+		changes.family = family;
+	}
+
+	if (input.parent_id !== undefined) {
+		const parentError =
+			input.parent_id === null
+				? null
+				: await validateParent(input.parent_id, languageId);
+		if (parentError) {
+			return { isValid: false, error: parentError };
+		}
+		changes.parent_id = input.parent_id;
+	}
+
+	return { isValid: true, result: changes };
+}
+
+// Etiquetas en minúsculas y sin repetir; null si alguna no es válida
+function normalizeLabels(values: string[]): string[] | null {
+	const labels = [
+		...new Set(values.map((value) => value.trim().toLowerCase())),
+	];
+	if (labels.length > MAX_LABELS) return null;
+	return labels.every(isLabel) ? labels : null;
+}
+
+// El lenguaje padre debe existir y no puede crear un ciclo (A → B → A)
+async function validateParent(
+	parentId: number,
+	languageId: number | null,
+): Promise<string | null> {
+	let ancestorId: number | null = parentId;
+	for (
+		let depth = 0;
+		ancestorId !== null && depth < MAX_PARENT_DEPTH;
+		depth++
+	) {
+		if (ancestorId === languageId) {
+			return "A language cannot descend from itself";
+		}
+		const ancestor = await languageQueries.getLanguageById(ancestorId);
+		if (!ancestor) {
+			return depth === 0 ? "Parent language not found" : null;
+		}
+		ancestorId = ancestor.parent_id;
+	}
+	return null;
+}
+
+/**
+ * Añade un lenguaje al catálogo
+ */
+export async function createLanguage(
+	input: LanguageInput,
+): Promise<LanguageAdminResult<Language>> {
+	const validation = await validateLanguageInput(input, null);
+	if (!validation.isValid || !validation.result) {
+		return validation as LanguageAdminResult<never>;
+	}
+
+	const language = await languageQueries.createLanguage(
+		validation.result as LanguageInput,
+	);
+	await refreshRankingData();
+	return { isValid: true, result: language };
+}
+
+/**
+ * Modifica los campos indicados de un lenguaje
+ */
+export async function updateLanguage(
+	languageId: number,
+	input: Partial<LanguageInput>,
+): Promise<LanguageAdminResult<Language>> {
+	const current = await languageQueries.getLanguageById(languageId);
+	if (!current) {
+		return { isValid: false, notFound: true, error: "Language not found" };
+	}
+
+	const validation = await validateLanguageInput(input, languageId);
+	const changes = validation.result;
+	if (!validation.isValid || !changes) {
+		return validation as LanguageAdminResult<never>;
+	}
+
+	const language = await withTransaction(async (sql) => {
+		const locked = await languageQueries.getLanguageForUpdate(languageId, sql);
+		if (!locked) return null;
+
+		// Las ediciones del admin también quedan en el historial de revisiones
+		const diff = diffLanguage(locked, changes);
+		if (Object.keys(diff).length > 0) {
+			await revisionQueries.createRevision(
+				{
+					language_id: languageId,
+					author_id: null,
+					status: "applied",
+					diff,
+					comment: "Edited by an admin",
+					rollback_of: null,
+				},
+				sql,
+			);
+		}
+		// El nombre anterior sigue encontrando el lenguaje en la búsqueda
+		// (y la semilla del catálogo no lo vuelve a crear)
+		if (
+			changes.name !== undefined &&
+			changes.name.toLowerCase() !== locked.name.toLowerCase()
+		) {
+			await aliasQueries.addAlias(languageId, locked.name, sql);
+		}
+		return await languageQueries.updateLanguage(languageId, changes, sql);
+	});
+	if (!language) {
+		return { isValid: false, notFound: true, error: "Language not found" };
+	}
+
+	await refreshRankingData();
+	return { isValid: true, result: language };
+}
+
+/**
+ * Archiva un lenguaje (deja de admitir votos y sale del ranking vivo,
+ * pero sus votos y snapshots se conservan) o lo recupera
+ */
+export async function setLanguageArchived(
+	languageId: number,
+	archived: boolean,
+): Promise<LanguageAdminResult<Language>> {
+	const language = await languageQueries.setArchived(languageId, archived);
+	if (!language) {
+		return { isValid: false, notFound: true, error: "Language not found" };
+	}
+
+	await refreshRankingData();
+	return { isValid: true, result: language };
+}
@@ -0,0 +1,201 @@
+import { dbUtils, snapshotQueries, voteQueries } from "../database/queries";
+import type { Language } from "../database/queries";
+import { getDefaultRankingAlgorithm } from "./rankingService";
+
+export interface LanguageMonthHistory {
+	month: string;
+	points: number;
+	unique_voters: number;
+	average_points: number;
+	total_votes: number;
+	rank: number | null;
+	finalized: boolean;
+}
+
+/**
+ * Posición de un lenguaje en un mes: del snapshot si el mes está finalizado,
+ * o calculada en vivo si aún no lo está
+ */
+async function getLanguageRankInMonth(
+	languageId: number,
+	month: string,
+): Promise<{ rank: number | null; finalized: boolean }> {
+	const snapshot = await snapshotQueries.getSnapshot(month);
+	if (snapshot.length > 0) {
+		const entry = snapshot.find((row) => row.language_id === languageId);
+		return { rank: entry?.rank ?? null, finalized: true };
+	}
+
+	const ranking = await dbUtils.getMonthlyRanking(
+		month,
+		getDefaultRankingAlgorithm(),
+	);
+	const row = ranking.find((language) => language.id === languageId);
+	return { rank: row ? Number(row.rank_position) : null, finalized: false };
+}
+
+/**
+ * Historial mensual de un lenguaje para todos los meses con actividad,
+ * del más antiguo al más reciente
+ */
+export async function getLanguageHistory(
+	languageId: number,
+): Promise<LanguageMonthHistory[]> {
+	const months = [...(await dbUtils.getActiveMonths())].reverse();
+
+	return await Promise.all(
+		months.map(async (month) => {
+			const stats = await voteQueries.getLanguageMonthlyStats(
+				languageId,
+				month,
+			);
+			const { rank, finalized } = await getLanguageRankInMonth(
+				languageId,
+				month,
+			);
+
+			return {
+				month,
+				points: stats.total_points,
+				unique_voters: stats.unique_voters,
+				average_points: stats.average_points,
+				total_votes: stats.total_votes,
+				rank,
+				finalized,
+			};
+		}),
+	);
+}
+
+export type LanguageSort = "total" | "month" | "name" | "voters";
+
+// Fila del ranking completo (dbUtils.getCompleteRanking)
+export type RankedLanguage = Language & {
+	current_month_points: number | string;
+	current_month_voters: number | string;
+	ranking_voters: number | string;
+	ranking_score: number;
+	rank_position: number;
+};
+
+export interface LanguageListOptions {
+	sort: LanguageSort;
+	limit: number;
+	cursor: LanguageCursor | null;
+	featured?: boolean;
+	tag?: string;
+	minVoters?: number;
+}
+
+export interface LanguagePage {
+	languages: RankedLanguage[];
+	total: number;
+	next_cursor: string | null;
+}
+
+// Posición tras el último lenguaje devuelto: [valor de orden, nombre, id]
+export interface LanguageCursor {
+	sort: LanguageSort;
+	key: [number | null, string, number];
+}
+
+// Valor numérico por el que se ordena de mayor a menor (null = solo por nombre)
+const sortValues: Record<
+	LanguageSort,
+	(language: RankedLanguage) => number | null
+> = {
+	total: (language) => language.ranking_score,
+	month: (language) => Number(language.current_month_points),
+	voters: (language) => Number(language.ranking_voters),
+	name: () => null,
+};
+
+function getSortKey(
+	language: RankedLanguage,
+	sort: LanguageSort,
+): LanguageCursor["key"] {
+	return [sortValues[sort](language), language.name, language.id];
+}
+
+// Orden total: valor descendente, después nombre e id ascendentes
+function compareSortKeys(
+	a: LanguageCursor["key"],
+	b: LanguageCursor["key"],
+): number {
+	const [valueA, nameA, idA] = a;
+	const [valueB, nameB, idB] = b;
+	if (valueA !== valueB) return (valueB ?? 0) - (valueA ?? 0);
+	if (nameA !== nameB) return nameA < nameB ? -1 : 1;
+	return idA - idB;
+}
+
+export function encodeLanguageCursor(cursor: LanguageCursor): string {
+	return Buffer.from(JSON.stringify([cursor.sort, ...cursor.key])).toString(
+		"base64url",
+	);
+}
+
+/**
+ * Decodifica el cursor de paginación; null si no es válido o es de otro orden
+ */
+export function decodeLanguageCursor(
+	value: string,
+	sort: LanguageSort,
+): LanguageCursor | null {
+	try {
+		const decoded: unknown = JSON.parse(
+			Buffer.from(value, "base64url").toString("utf8"),
+		);
+		if (!Array.isArray(decoded) || decoded.length !== 4) return null;
+
+		const [cursorSort, sortValue, name, id] = decoded;
+		if (
+			cursorSort !== sort ||
+			(sortValue !== null && typeof sortValue !== "number") ||
+			typeof name !== "string" ||
+			!Number.isInteger(id)
+		) {
+			return null;
+		}
+		return { sort, key: [sortValue, name, id] };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Filtra, ordena y pagina el ranking completo. Las posiciones (rank_position)
+ * siguen siendo las del ranking global aunque se filtre
+ */
+export function pageLanguages(
+	ranking: RankedLanguage[],
+	options: LanguageListOptions,
+): LanguagePage {
+	const { sort, limit, cursor, featured, tag, minVoters } = options;
+
+	const matching = ranking
+		.filter(
+			(language) =>
+				(featured === undefined || language.is_featured === featured) &&
+				(tag === undefined || language.tags.includes(tag)) &&
+				(minVoters === undefined ||
+					Number(language.ranking_voters) >= minVoters),
+		)
+		.map((language) => ({ language, key: getSortKey(language, sort) }))
+		.sort((a, b) => compareSortKeys(a.key, b.key));
+
+	const remaining = cursor
+		? matching.filter((entry) => compareSortKeys(entry.key, cursor.key) > 0)
+		: matching;
+	const page = remaining.slice(0, limit);
+	const last = page[page.length - 1];
+
+	return {
+		languages: page.map((entry) => entry.language),
+		total: matching.length,
+		next_cursor:
+			last && remaining.length > limit
+				? encodeLanguageCursor({ sort, key: last.key })
+				: null,
+	};
+}
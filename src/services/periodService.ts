@@ -0,0 +1,69 @@
+import { db } from "../database/database";
+import type { DbClient } from "../database/database";
+import { dbUtils, periodQueries } from "../database/queries";
+import type { VotingPeriod } from "../database/queries";
+import { finalizeClosedPeriods } from "./snapshotService";
+
+/**
+ * Crea los periodos del mes actual y del siguiente si faltan,
+ * actualiza el estado de todos según la hora actual y congela
+ * el ranking de los que se han cerrado
+ */
+export async function syncVotingPeriods(sql: DbClient = db): Promise<void> {
+	const timezone = dbUtils.getVotingTimezone();
+	const currentMonth = dbUtils.getCurrentMonth();
+
+	await periodQueries.ensurePeriod(currentMonth, timezone, sql);
+	await periodQueries.ensurePeriod(
+		dbUtils.getNextMonth(currentMonth),
+		timezone,
+		sql,
+	);
+	await periodQueries.syncStatuses(sql);
+	await finalizeClosedPeriods();
+}
+
+/**
+ * Obtiene el periodo de votación de un mes
+ */
+export async function getVotingPeriod(
+	month: string,
+	sql: DbClient = db,
+): Promise<VotingPeriod | null> {
+	return await periodQueries.getPeriod(month, sql);
+}
+
+/**
+ * Indica si un periodo admite votos en este momento
+ */
+export function isPeriodOpen(
+	period: VotingPeriod | null,
+	now: Date = new Date(),
+): period is VotingPeriod {
+	return (
+		period !== null &&
+		period.status === "open" &&
+		period.starts_at <= now &&
+		now < period.ends_at
+	);
+}
+
+/**
+ * Mensaje explicando por qué un periodo no admite votos
+ */
+export function describeClosedPeriod(
+	month: string,
+	period: VotingPeriod | null,
+	now: Date = new Date(),
+): string {
+	if (!period) {
+		return `There is no voting period for ${month}. Voting is closed.`;
+	}
+	if (period.status === "scheduled" || now < period.starts_at) {
+		return `Voting for ${month} has not opened yet. It opens at ${period.starts_at.toISOString()}.`;
+	}
+	if (now >= period.ends_at) {
+		return `Voting for ${month} closed at ${period.ends_at.toISOString()}.`;
+	}
+	return `Voting for ${month} is ${period.status}.`;
+}
@@ -0,0 +1,106 @@
+import { refreshLanguageRankings } from "../database/migrations";
+
+export interface CachedPayload<T> {
+	body: T;
+	etag: string;
+	lastModified: Date;
+}
+
+// Respuestas de ranking ya calculadas, por clave de ruta y parámetros.
+// Las claves salen de la query, así que se limita el número de entradas:
+// al llenarse se descarta la usada hace más tiempo
+const cache = new Map<string, Promise<CachedPayload<unknown>>>();
+const MAX_CACHE_ENTRIES = 500;
+
+// Momento del último cambio de datos (sin milisegundos, como Last-Modified)
+let lastModified = truncateToSeconds(new Date());
+
+function truncateToSeconds(date: Date): Date {
+	return new Date(Math.floor(date.getTime() / 1000) * 1000);
+}
+
+/**
+ * ETag fuerte a partir del contenido de la respuesta
+ */
+export function createEtag(body: unknown): string {
+	return `"${Bun.hash(JSON.stringify(body)).toString(16)}"`;
+}
+
+/**
+ * Devuelve la respuesta cacheada para una clave o la calcula con loader.
+ * Las peticiones simultáneas comparten el mismo cálculo
+ */
+export async function getCachedRanking<T>(
+	key: string,
+	loader: () => Promise<T>,
+): Promise<CachedPayload<T>> {
+	const cached = cache.get(key) as Promise<CachedPayload<T>> | undefined;
+	if (cached) {
+		// El Map conserva el orden de inserción: reinsertar la marca como reciente
+		cache.delete(key);
+		cache.set(key, cached);
+		return await cached;
+	}
+
+	const modifiedAt = lastModified;
+	const pending = loader().then((body) => ({
+		body,
+		etag: createEtag(body),
+		lastModified: modifiedAt,
+	}));
+	cache.set(key, pending);
+	if (cache.size > MAX_CACHE_ENTRIES) {
+		const oldest = cache.keys().next().value;
+		if (oldest !== undefined) cache.delete(oldest);
+	}
+
+	try {
+		return await pending;
+	} catch (error) {
+		// No guardar errores: la siguiente petición vuelve a intentarlo
+		if (cache.get(key) === pending) cache.delete(key);
+		throw error;
+	}
+}
+
+/**
+ * Descarta todas las respuestas cacheadas (tras confirmarse un voto)
+ */
+export function invalidateRankingCache(): void {
+	cache.clear();
+	lastModified = truncateToSeconds(new Date());
+}
+
+/**
+ * Refresca la vista language_rankings y después invalida la caché,
+ * para que las siguientes respuestas ya se calculen con la vista al día
+ */
+export async function refreshRankingData(): Promise<void> {
+	await refreshLanguageRankings();
+	invalidateRankingCache();
+}
+
+/**
+ * Indica si el cliente ya tiene la versión actual (If-None-Match / If-Modified-Since)
+ */
+export function isNotModified(
+	headers: Headers,
+	payload: CachedPayload<unknown>,
+): boolean {
+	const ifNoneMatch = headers.get("if-none-match");
+	if (ifNoneMatch) {
+		// If-None-Match tiene prioridad sobre If-Modified-Since
+		return ifNoneMatch
+			.split(",")
+			.map((tag) => tag.trim().replace(/^W\//, ""))
+			.some((tag) => tag === "*" || tag === payload.etag);
+	}
+
+	const ifModifiedSince = headers.get("if-modified-since");
+	if (ifModifiedSince) {
+		const since = Date.parse(ifModifiedSince);
+		return !Number.isNaN(since) && payload.lastModified.getTime() <= since;
+	}
+
+	return false;
+}
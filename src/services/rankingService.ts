@@ -0,0 +1,158 @@
+import { dbUtils } from "../database/queries";
+import type { RankingAlgorithm } from "../database/queries";
+
+export type RankingWindow = "3m" | "6m" | "12m" | "all";
+
+// Meses que abarca cada ventana (null = todo el histórico)
+const windowMonths: Record<RankingWindow, number | null> = {
+	"3m": 3,
+	"6m": 6,
+	"12m": 12,
+	all: null,
+};
+
+const rankingAlgorithms: RankingAlgorithm[] = [
+	"competition",
+	"dense",
+	"bayesian",
+	"wilson",
+];
+
+// Vida media máxima admitida para el decaimiento, en meses
+const MAX_HALF_LIFE_MONTHS = 120;
+
+// La vida media se redondea a décimas de mes: más precisión no cambia el
+// ranking y cada valor distinto ocuparía otra entrada de la caché
+const HALF_LIFE_PRECISION = 10;
+
+export interface RollingRankingOptions {
+	window: RankingWindow;
+	halfLifeMonths: number | null;
+	algorithm: RankingAlgorithm;
+}
+
+export interface RankingOptionsResult {
+	isValid: boolean;
+	error?: string;
+	options?: RollingRankingOptions;
+}
+
+/**
+ * Algoritmo de ranking por defecto (RANKING_ALGORITHM o competition)
+ */
+export function getDefaultRankingAlgorithm(): RankingAlgorithm {
+	return parseRankingAlgorithm(process.env.RANKING_ALGORITHM) ?? "competition";
+}
+
+/**
+ * Valida el nombre de un algoritmo de ranking (null si no es válido)
+ */
+export function parseRankingAlgorithm(
+	value: string | undefined,
+): RankingAlgorithm | null {
+	return rankingAlgorithms.find((algorithm) => algorithm === value) ?? null;
+}
+
+/**
+ * Resuelve el parámetro ?algorithm=, usando el algoritmo por defecto si falta
+ */
+export function resolveRankingAlgorithm(value: string | undefined): {
+	isValid: boolean;
+	error?: string;
+	algorithm?: RankingAlgorithm;
+} {
+	if (value === undefined || value === "") {
+		return { isValid: true, algorithm: getDefaultRankingAlgorithm() };
+	}
+
+	const algorithm = parseRankingAlgorithm(value);
+	if (!algorithm) {
+		return {
+			isValid: false,
+			error: `algorithm must be one of ${rankingAlgorithms.join(", ")}`,
+		};
+	}
+	return { isValid: true, algorithm };
+}
+
+/**
+ * Valida los parámetros ?window=, ?decay= y ?algorithm= del ranking
+ */
+export function parseRankingOptions(query: {
+	window?: string;
+	decay?: string;
+	algorithm?: string;
+}): RankingOptionsResult {
+	const rankingWindow = (query.window || "all") as RankingWindow;
+	if (!Object.hasOwn(windowMonths, rankingWindow)) {
+		return {
+			isValid: false,
+			error: `window must be one of ${Object.keys(windowMonths).join(", ")}`,
+		};
+	}
+
+	let halfLifeMonths: number | null = null;
+	if (query.decay !== undefined && query.decay !== "") {
+		halfLifeMonths =
+			Math.round(Number(query.decay) * HALF_LIFE_PRECISION) /
+			HALF_LIFE_PRECISION;
+		if (
+			!Number.isFinite(halfLifeMonths) ||
+			halfLifeMonths <= 0 ||
+			halfLifeMonths > MAX_HALF_LIFE_MONTHS
+		) {
+			return {
+				isValid: false,
+				error: `decay must be a half-life in months between 0 and ${MAX_HALF_LIFE_MONTHS}`,
+			};
+		}
+	}
+
+	const resolved = resolveRankingAlgorithm(query.algorithm);
+	if (!resolved.isValid || !resolved.algorithm) {
+		return { isValid: false, error: resolved.error };
+	}
+
+	return {
+		isValid: true,
+		options: {
+			window: rankingWindow,
+			halfLifeMonths,
+			algorithm: resolved.algorithm,
+		},
+	};
+}
+
+/**
+ * Primer mes incluido en una ventana que termina en el mes actual
+ */
+export function getWindowStartMonth(
+	rankingWindow: RankingWindow,
+): string | null {
+	const months = windowMonths[rankingWindow];
+	if (months === null) return null;
+
+	let month = dbUtils.getCurrentMonth();
+	for (let i = 1; i < months; i++) {
+		month = dbUtils.getPreviousMonth(month);
+	}
+	return month;
+}
+
+/**
+ * Ranking por ventana móvil y/o con decaimiento temporal,
+ * opcionalmente limitado a los lenguajes de una etiqueta
+ */
+export async function getRollingRanking(
+	options: RollingRankingOptions,
+	limit: number,
+	tag: string | null = null,
+) {
+	return await dbUtils.getRollingRanking({
+		fromMonth: getWindowStartMonth(options.window),
+		halfLifeMonths: options.halfLifeMonths,
+		algorithm: options.algorithm,
+		limit,
+		tag,
+	});
+}
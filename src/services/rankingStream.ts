@@ -0,0 +1,159 @@
+import { db } from "../database/database";
+import { dbUtils, voteQueries } from "../database/queries";
+import { refreshRankingData } from "./rankingCache";
+
+// Canal de Postgres en el que el trigger de votes publica cada cambio
+export const RANKING_CHANNEL = "ranking_changes";
+
+// Tiempo para agrupar notificaciones (una papeleta genera varias filas)
+const FLUSH_DELAY_MS = 250;
+
+// Comentario SSE periódico para que proxies no cierren la conexión
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+interface RankingChangeNotification {
+	language_id: number;
+	vote_month: string;
+	total_votes: number;
+	delta: number;
+}
+
+export interface LanguageRankingUpdate {
+	id: number;
+	total_votes: number;
+	current_month_points: number;
+	current_month_voters: number;
+	delta: number;
+}
+
+export interface RankingUpdateEvent {
+	month: string;
+	languages: LanguageRankingUpdate[];
+	stats: {
+		total_votes: number;
+		total_users: number;
+		total_points: number;
+	};
+}
+
+type RankingSubscriber = (event: RankingUpdateEvent) => void;
+
+const subscribers = new Set<RankingSubscriber>();
+const pendingDeltas = new Map<number, number>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+/**
+ * Suscribirse a las actualizaciones del ranking; devuelve la función para cancelar
+ */
+export function subscribeToRankingUpdates(
+	subscriber: RankingSubscriber,
+): () => void {
+	subscribers.add(subscriber);
+	return () => {
+		subscribers.delete(subscriber);
+	};
+}
+
+/**
+ * Empezar a escuchar el canal ranking_changes (una vez por proceso).
+ * Cada instancia del servidor escucha por su cuenta, así todas se mantienen al día
+ */
+export async function startRankingNotifications(): Promise<void> {
+	if (listening) return;
+	listening = true;
+
+	await db.listen(RANKING_CHANNEL, (payload) => {
+		try {
+			const change = JSON.parse(payload) as RankingChangeNotification;
+			pendingDeltas.set(
+				change.language_id,
+				(pendingDeltas.get(change.language_id) ?? 0) + change.delta,
+			);
+		} catch (error) {
+			console.error("Invalid ranking notification:", error);
+			return;
+		}
+
+		if (!flushTimer) {
+			flushTimer = setTimeout(() => {
+				flushTimer = null;
+				flushPendingChanges().catch((error) =>
+					console.error("Error broadcasting ranking update:", error),
+				);
+			}, FLUSH_DELAY_MS);
+		}
+	});
+
+	console.log(`📡 Listening for ranking changes on ${RANKING_CHANNEL}`);
+}
+
+// Poner al día la vista y la caché del ranking y enviar a los suscriptores
+// los totales actuales de los lenguajes modificados
+async function flushPendingChanges(): Promise<void> {
+	const deltas = new Map(pendingDeltas);
+	pendingDeltas.clear();
+	if (deltas.size === 0) return;
+
+	// Antes de avisar, para que los clientes que recarguen vean los datos nuevos
+	await refreshRankingData();
+	if (subscribers.size === 0) return;
+
+	const totals = await dbUtils.getLanguagesCurrentTotals([...deltas.keys()]);
+	const event: RankingUpdateEvent = {
+		month: dbUtils.getCurrentMonth(),
+		languages: totals.map((language) => ({
+			...language,
+			delta: deltas.get(language.id) ?? 0,
+		})),
+		stats: await voteQueries.getCurrentMonthStats(),
+	};
+
+	for (const subscriber of subscribers) {
+		subscriber(event);
+	}
+}
+
+/**
+ * Stream SSE con los eventos "ranking" de cada cambio confirmado.
+ * Se cierra al abortarse la petición del cliente
+ */
+export function createRankingEventStream(signal: AbortSignal): ReadableStream {
+	const encoder = new TextEncoder();
+	let cleanup = () => {};
+
+	return new ReadableStream({
+		start(controller) {
+			const send = (event: string, data: unknown) => {
+				controller.enqueue(
+					encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+				);
+			};
+
+			const unsubscribe = subscribeToRankingUpdates((update) =>
+				send("ranking", update),
+			);
+			const heartbeat = setInterval(() => {
+				controller.enqueue(encoder.encode(": ping\n\n"));
+			}, HEARTBEAT_INTERVAL_MS);
+
+			cleanup = () => {
+				unsubscribe();
+				clearInterval(heartbeat);
+			};
+			signal.addEventListener("abort", () => {
+				cleanup();
+				try {
+					controller.close();
+				} catch {
+					// El stream ya estaba cerrado
+				}
+			});
+
+			send("ready", { month: dbUtils.getCurrentMonth() });
+		},
+		cancel() {
+			cleanup();
+		},
+	});
+}
@@ -0,0 +1,308 @@
+import { withTransaction } from "../database/database";
+import { languageQueries, revisionQueries } from "../database/queries";
+import type {
+	Language,
+	LanguageInput,
+	LanguageRevision,
+	RevisionDiff,
+	RevisionField,
+} from "../database/queries";
+import {
+	diffLanguage,
+	isHexColor,
+	type LanguageAdminResult,
+	REVISION_FIELDS,
+} from "./languageAdminService";
+import { refreshRankingData } from "./rankingCache";
+
+export interface RevisionInput {
+	description?: string | null;
+	color?: string;
+	comment?: string | null;
+}
+
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_COMMENT_LENGTH = 200;
+const MAX_REASON_LENGTH = 500;
+
+// Cambios a guardar en languages a partir de un diff
+function changesFromDiff(diff: RevisionDiff): Partial<LanguageInput> {
+	const changes: Partial<LanguageInput> = {};
+	if (diff.description) changes.description = diff.description.to;
+	if (diff.color?.to) changes.color = diff.color.to;
+	return changes;
+}
+
+/**
+ * Propone un cambio de descripción y/o color; queda pendiente de moderación
+ */
+export async function proposeRevision(
+	userId: number,
+	languageId: number,
+	input: RevisionInput,
+): Promise<LanguageAdminResult<LanguageRevision>> {
+	const proposed: Partial<Record<RevisionField, string | null>> = {};
+
+	if (input.description !== undefined) {
+		const description = input.description?.trim() ?? "";
+		if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+			return {
+				isValid: false,
+				error: `Description must be between 1 and ${MAX_DESCRIPTION_LENGTH} characters`,
+			};
+		}
+		proposed.description = description;
+	}
+
+	if (input.color !== undefined) {
+		if (!isHexColor(input.color)) {
+			return {
+				isValid: false,
+				error: "Color must be a hex value like #3178c6",
+			};
+		}
+		proposed.color = input.color.toLowerCase();
+	}
+
+	const comment = input.comment?.trim() || null;
+	if (comment && comment.length > MAX_COMMENT_LENGTH) {
+		return {
+			isValid: false,
+			error: `Comment must be at most ${MAX_COMMENT_LENGTH} characters`,
+		};
+	}
+
+	const language = await languageQueries.getLanguageById(languageId);
+	if (!language) {
+		return { isValid: false, notFound: true, error: "Language not found" };
+	}
+
+	const diff = diffLanguage(language, proposed);
+	if (Object.keys(diff).length === 0) {
+		return {
+			isValid: false,
+			error: "The proposed values are the same as the current ones",
+		};
+	}
+
+	const revision = await revisionQueries.createRevision({
+		language_id: languageId,
+		author_id: userId,
+		status: "pending",
+		diff,
+		comment,
+		rollback_of: null,
+	});
+	return { isValid: true, result: revision };
+}
+
+/**
+ * Aplica una revisión pendiente. Si el lenguaje ha cambiado desde que se
+ * propuso (los valores "from" ya no coinciden) se rechaza como conflicto
+ */
+export async function applyRevision(
+	revisionId: number,
+): Promise<LanguageAdminResult<LanguageRevision>> {
+	const outcome = await withTransaction(
+		async (sql): Promise<LanguageAdminResult<LanguageRevision>> => {
+			const revision = await revisionQueries.getRevisionForUpdate(
+				revisionId,
+				sql,
+			);
+			if (!revision) {
+				return { isValid: false, notFound: true, error: "Revision not found" };
+			}
+			if (revision.status !== "pending") {
+				return {
+					isValid: false,
+					conflict: true,
+					error: `This revision has already been ${revision.status}`,
+				};
+			}
+
+			const language = await languageQueries.getLanguageForUpdate(
+				revision.language_id,
+				sql,
+			);
+			if (!language) {
+				return { isValid: false, notFound: true, error: "Language not found" };
+			}
+
+			const stale = REVISION_FIELDS.some(
+				(field) =>
+					revision.diff[field] !== undefined &&
+					revision.diff[field]?.from !== language[field],
+			);
+			if (stale) {
+				return {
+					isValid: false,
+					conflict: true,
+					error:
+						"The language has changed since this revision was proposed. Reject it and ask for a new one.",
+				};
+			}
+
+			await languageQueries.updateLanguage(
+				language.id,
+				changesFromDiff(revision.diff),
+				sql,
+			);
+			return {
+				isValid: true,
+				result: await revisionQueries.review(
+					revisionId,
+					{ status: "applied" },
+					sql,
+				),
+			};
+		},
+	);
+
+	if (outcome.isValid) {
+		await refreshRankingData();
+	}
+	return outcome;
+}
+
+/**
+ * Rechaza una revisión pendiente indicando el motivo
+ */
+export async function rejectRevision(
+	revisionId: number,
+	reason: string,
+): Promise<LanguageAdminResult<LanguageRevision>> {
+	const trimmed = reason.trim();
+	if (!trimmed || trimmed.length > MAX_REASON_LENGTH) {
+		return {
+			isValid: false,
+			error: `Reason must be between 1 and ${MAX_REASON_LENGTH} characters`,
+		};
+	}
+
+	return await withTransaction(
+		async (sql): Promise<LanguageAdminResult<LanguageRevision>> => {
+			const revision = await revisionQueries.getRevisionForUpdate(
+				revisionId,
+				sql,
+			);
+			if (!revision) {
+				return { isValid: false, notFound: true, error: "Revision not found" };
+			}
+			if (revision.status !== "pending") {
+				return {
+					isValid: false,
+					conflict: true,
+					error: `This revision has already been ${revision.status}`,
+				};
+			}
+
+			return {
+				isValid: true,
+				result: await revisionQueries.review(
+					revisionId,
+					{ status: "rejected", rejection_reason: trimmed },
+					sql,
+				),
+			};
+		},
+	);
+}
+
+/**
+ * Valores de los campos versionados justo después de aplicar una revisión:
+ * el último "to" hasta esa revisión, o el "from" original si el campo
+ * solo cambió después
+ */
+function getStateAfterRevision(
+	language: Language,
+	applied: LanguageRevision[],
+	revisionId: number,
+): Partial<Record<RevisionField, string | null>> {
+	const state: Partial<Record<RevisionField, string | null>> = {};
+	// applied va en orden de aplicación: cuenta la posición, no el id
+	const position = applied.findIndex((revision) => revision.id === revisionId);
+
+	for (const field of REVISION_FIELDS) {
+		const changes = applied.filter(
+			(revision) => revision.diff[field] !== undefined,
+		);
+		const upTo = applied
+			.slice(0, position + 1)
+			.filter((revision) => revision.diff[field] !== undefined);
+		const last = upTo[upTo.length - 1]?.diff[field];
+		const first = changes[0]?.diff[field];
+
+		state[field] = last ? last.to : first ? first.from : language[field];
+	}
+
+	return state;
+}
+
+/**
+ * Devuelve la descripción y el color de un lenguaje al estado que tenían
+ * tras una revisión aplicada. La vuelta atrás queda como una revisión más
+ */
+export async function rollbackToRevision(
+	languageId: number,
+	revisionId: number,
+): Promise<LanguageAdminResult<LanguageRevision>> {
+	const outcome = await withTransaction(
+		async (sql): Promise<LanguageAdminResult<LanguageRevision>> => {
+			const language = await languageQueries.getLanguageForUpdate(
+				languageId,
+				sql,
+			);
+			if (!language) {
+				return { isValid: false, notFound: true, error: "Language not found" };
+			}
+
+			const applied = await revisionQueries.getAppliedRevisions(
+				languageId,
+				sql,
+			);
+			if (!applied.some((revision) => revision.id === revisionId)) {
+				return {
+					isValid: false,
+					notFound: true,
+					error: "Applied revision not found for this language",
+				};
+			}
+
+			const diff = diffLanguage(
+				language,
+				getStateAfterRevision(language, applied, revisionId),
+			);
+			if (Object.keys(diff).length === 0) {
+				return {
+					isValid: false,
+					error: "The language already matches this revision",
+				};
+			}
+
+			await languageQueries.updateLanguage(
+				languageId,
+				changesFromDiff(diff),
+				sql,
+			);
+			return {
+				isValid: true,
+				result: await revisionQueries.createRevision(
+					{
+						language_id: languageId,
+						author_id: null,
+						status: "applied",
+						diff,
+						comment: `Rolled back to revision #${revisionId}`,
+						rollback_of: revisionId,
+					},
+					sql,
+				),
+			};
+		},
+	);
+
+	if (outcome.isValid) {
+		await refreshRankingData();
+	}
+	return outcome;
+}
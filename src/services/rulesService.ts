@@ -0,0 +1,48 @@
+import { db } from "../database/database";
+import type { DbClient } from "../database/database";
+import { dbUtils, ruleQueries, voteQueries } from "../database/queries";
+import type { VotingRules } from "../database/queries";
+import { getScoringStrategy } from "./voteService";
+
+/**
+ * Obtiene las reglas de votación vigentes para un mes
+ */
+export async function getVotingRules(
+	month: string,
+	sql: DbClient = db,
+): Promise<VotingRules> {
+	return await ruleQueries.getRulesForMonth(month, sql);
+}
+
+/**
+ * Calcula el presupuesto de puntos de un usuario para un mes,
+ * sumando los puntos no usados del mes anterior si las reglas lo permiten.
+ * Lo no usado se mide con la estrategia del mes anterior: en un mes
+ * cuadrático 3 votos gastan 9 créditos, no 3
+ */
+export async function getPointsBudget(
+	userId: number,
+	month: string,
+	rules?: VotingRules,
+	sql: DbClient = db,
+): Promise<number> {
+	const monthRules = rules ?? (await getVotingRules(month, sql));
+	if (!monthRules.carry_over) {
+		return monthRules.points_budget;
+	}
+
+	const previousMonth = dbUtils.getPreviousMonth(month);
+	const previousRules = await getVotingRules(previousMonth, sql);
+	const previousAllocation = await voteQueries.getUserAllocation(
+		userId,
+		previousMonth,
+		sql,
+	);
+	const unusedPoints = Math.max(
+		0,
+		previousRules.points_budget -
+			getScoringStrategy(previousRules).cost(previousAllocation),
+	);
+
+	return monthRules.points_budget + unusedPoints;
+}
@@ -0,0 +1,100 @@
+import { withTransaction } from "../database/database";
+import {
+	dbUtils,
+	periodQueries,
+	ruleQueries,
+	snapshotQueries,
+} from "../database/queries";
+import type { RankingSnapshotEntry } from "../database/queries";
+import { getDefaultRankingAlgorithm } from "./rankingService";
+
+/**
+ * Congela el ranking de un periodo cerrado en ranking_snapshots y lo marca como finalized.
+ * Devuelve false si el periodo no existe o no está cerrado
+ */
+export async function finalizePeriod(month: string): Promise<boolean> {
+	return await withTransaction(async (sql) => {
+		const period = await periodQueries.getPeriodForUpdate(month, sql);
+		if (!period || period.status !== "closed") {
+			return false;
+		}
+
+		const rules = await ruleQueries.getRulesForMonth(month, sql);
+		const algorithm = getDefaultRankingAlgorithm();
+		const ranking = await dbUtils.getMonthlyRanking(month, algorithm, sql);
+
+		// Movimiento respecto al snapshot del mes anterior (si existe)
+		const previousSnapshot = await snapshotQueries.getSnapshot(
+			dbUtils.getPreviousMonth(month),
+			sql,
+		);
+		const previousRanks = new Map(
+			previousSnapshot.map((entry) => [entry.language_id, entry.rank]),
+		);
+
+		const entries: RankingSnapshotEntry[] = ranking.map((row) => {
+			const rank = Number(row.rank_position);
+			const previousRank = previousRanks.get(row.id as number) ?? null;
+			return {
+				vote_month: month,
+				language_id: row.id as number,
+				language_name: row.name as string,
+				language_color: (row.color as string | null) ?? null,
+				rank,
+				points: Number(row.month_points),
+				voters: Number(row.month_voters),
+				previous_rank: previousRank,
+				rank_change: previousRank === null ? null : previousRank - rank,
+				scoring_strategy: rules.scoring_strategy,
+				ranking_algorithm: algorithm,
+			};
+		});
+
+		await snapshotQueries.insertSnapshot(entries, sql);
+		await periodQueries.setStatus(month, "finalized", sql);
+
+		console.log(`📸 Ranking snapshot saved for ${month}`);
+		return true;
+	});
+}
+
+/**
+ * Finaliza todos los periodos cerrados, en orden cronológico para que
+ * cada snapshot pueda compararse con el del mes anterior
+ */
+export async function finalizeClosedPeriods(): Promise<string[]> {
+	const closedPeriods = await periodQueries.getClosedPeriods();
+	const finalized: string[] = [];
+
+	for (const period of closedPeriods) {
+		if (await finalizePeriod(period.code)) {
+			finalized.push(period.code);
+		}
+	}
+
+	return finalized;
+}
+
+/**
+ * Índice del archivo histórico: meses con actividad y si su ranking ya está congelado
+ */
+export async function getRankingArchive(): Promise<
+	{ month: string; finalized: boolean; leader: string | null }[]
+> {
+	const activeMonths = await dbUtils.getActiveMonths();
+	const summaries = await snapshotQueries.getSnapshotSummaries();
+	const summaryByMonth = new Map(
+		summaries.map((summary) => [summary.vote_month, summary]),
+	);
+
+	// Un mes puede tener snapshot sin votos actuales (p. ej. usuarios borrados)
+	const months = [
+		...new Set([...activeMonths, ...summaryByMonth.keys()]),
+	].sort((a, b) => b.localeCompare(a));
+
+	return months.map((month) => ({
+		month,
+		finalized: summaryByMonth.has(month),
+		leader: summaryByMonth.get(month)?.leader ?? null,
+	}));
+}
@@ -0,0 +1,252 @@
+import { withTransaction } from "../database/database";
+import {
+	aliasQueries,
+	languageQueries,
+	suggestionQueries,
+} from "../database/queries";
+import type { Language, LanguageSuggestion } from "../database/queries";
+import {
+	isHexColor,
+	isHttpUrl,
+	type LanguageAdminResult,
+} from "./languageAdminService";
+import { refreshRankingData } from "./rankingCache";
+
+export interface SuggestionInput {
+	name: string;
+	description?: string | null;
+	homepage?: string | null;
+}
+
+// Ajustes opcionales del admin al aprobar (el resto sale de la sugerencia)
+export interface SuggestionApproval {
+	color?: string;
+	is_featured?: boolean;
+}
+
+export interface ApprovedSuggestion {
+	suggestion: LanguageSuggestion;
+	language: Language;
+}
+
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_HOMEPAGE_LENGTH = 255;
+const MAX_REASON_LENGTH = 500;
+
+// Mensaje de error si el nombre ya corresponde a un lenguaje del catálogo
+async function findExistingLanguage(name: string): Promise<string | null> {
+	const language = await languageQueries.getLanguageByName(name);
+	if (language) {
+		return `Language "${language.name}" already exists`;
+	}
+
+	const alias = await aliasQueries.getAlias(name);
+	if (alias) {
+		const aliased = await languageQueries.getLanguageById(alias.language_id);
+		return `"${name}" is already listed as ${aliased?.name ?? "another language"}`;
+	}
+	return null;
+}
+
+/**
+ * Registra la sugerencia de un lenguaje que falta en el catálogo
+ */
+export async function submitSuggestion(
+	userId: number,
+	input: SuggestionInput,
+): Promise<LanguageAdminResult<LanguageSuggestion>> {
+	const name = input.name.trim();
+	if (!name || name.length > MAX_NAME_LENGTH) {
+		return {
+			isValid: false,
+			error: `Name must be between 1 and ${MAX_NAME_LENGTH} characters`,
+		};
+	}
+
+	const description = input.description?.trim() || null;
+	if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+		return {
+			isValid: false,
+			error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+		};
+	}
+
+	const homepage = input.homepage?.trim() || null;
+	if (
+		homepage &&
+		(homepage.length > MAX_HOMEPAGE_LENGTH || !isHttpUrl(homepage))
+	) {
+		return { isValid: false, error: "Homepage must be an http(s) URL" };
+	}
+
+	const existing = await findExistingLanguage(name);
+	if (existing) {
+		return { isValid: false, conflict: true, error: existing };
+	}
+
+	const created = await suggestionQueries.createSuggestion(userId, {
+		name,
+		description,
+		homepage,
+	});
+	if (!created) {
+		return {
+			isValid: false,
+			conflict: true,
+			error: `"${name}" has already been suggested. Upvote it instead.`,
+		};
+	}
+
+	return { isValid: true, result: created };
+}
+
+/**
+ * Apoya (o retira el apoyo a) una sugerencia pendiente.
+ * Devuelve el número de apoyos resultante
+ */
+export async function setSuggestionUpvote(
+	userId: number,
+	suggestionId: number,
+	upvote: boolean,
+): Promise<LanguageAdminResult<number>> {
+	const suggestion = await suggestionQueries.getSuggestion(suggestionId);
+	if (!suggestion) {
+		return { isValid: false, notFound: true, error: "Suggestion not found" };
+	}
+	if (suggestion.status !== "pending") {
+		return {
+			isValid: false,
+			error: `This suggestion has already been ${suggestion.status}`,
+		};
+	}
+	if (suggestion.suggested_by === userId) {
+		return {
+			isValid: false,
+			error: "You cannot upvote your own suggestion",
+		};
+	}
+
+	if (upvote) {
+		await suggestionQueries.addUpvote(suggestionId, userId);
+	} else {
+		await suggestionQueries.removeUpvote(suggestionId, userId);
+	}
+
+	return {
+		isValid: true,
+		result: await suggestionQueries.countUpvotes(suggestionId),
+	};
+}
+
+/**
+ * Aprueba una sugerencia pendiente creando el lenguaje en el catálogo
+ */
+export async function approveSuggestion(
+	suggestionId: number,
+	approval: SuggestionApproval,
+): Promise<LanguageAdminResult<ApprovedSuggestion>> {
+	if (approval.color !== undefined && !isHexColor(approval.color)) {
+		return { isValid: false, error: "Color must be a hex value like #3178c6" };
+	}
+
+	const outcome = await withTransaction(
+		async (sql): Promise<LanguageAdminResult<ApprovedSuggestion>> => {
+			const suggestion = await suggestionQueries.getSuggestionForUpdate(
+				suggestionId,
+				sql,
+			);
+			if (!suggestion) {
+				return {
+					isValid: false,
+					notFound: true,
+					error: "Suggestion not found",
+				};
+			}
+			if (suggestion.status !== "pending") {
+				return {
+					isValid: false,
+					conflict: true,
+					error: `This suggestion has already been ${suggestion.status}`,
+				};
+			}
+
+			// El lenguaje pudo añadirse a mano después de sugerirse
+			const existing = await findExistingLanguage(suggestion.name);
+			if (existing) {
+				return { isValid: false, conflict: true, error: existing };
+			}
+
+			const language = await languageQueries.createLanguage(
+				{
+					name: suggestion.name,
+					description: suggestion.description,
+					homepage: suggestion.homepage,
+					color: approval.color?.toLowerCase(),
+					is_featured: approval.is_featured,
+				},
+				sql,
+			);
+			const reviewed = await suggestionQueries.review(
+				suggestionId,
+				{ status: "approved", language_id: language.id },
+				sql,
+			);
+
+			return { isValid: true, result: { suggestion: reviewed, language } };
+		},
+	);
+
+	if (outcome.isValid) {
+		await refreshRankingData();
+	}
+	return outcome;
+}
+
+/**
+ * Rechaza una sugerencia pendiente indicando el motivo
+ */
+export async function rejectSuggestion(
+	suggestionId: number,
+	reason: string,
+): Promise<LanguageAdminResult<LanguageSuggestion>> {
+	const trimmed = reason.trim();
+	if (!trimmed || trimmed.length > MAX_REASON_LENGTH) {
+		return {
+			isValid: false,
+			error: `Reason must be between 1 and ${MAX_REASON_LENGTH} characters`,
+		};
+	}
+
+	return await withTransaction(
+		async (sql): Promise<LanguageAdminResult<LanguageSuggestion>> => {
+			const suggestion = await suggestionQueries.getSuggestionForUpdate(
+				suggestionId,
+				sql,
+			);
+			if (!suggestion) {
+				return {
+					isValid: false,
+					notFound: true,
+					error: "Suggestion not found",
+				};
+			}
+			if (suggestion.status !== "pending") {
+				return {
+					isValid: false,
+					conflict: true,
+					error: `This suggestion has already been ${suggestion.status}`,
+				};
+			}
+
+			return {
+				isValid: true,
+				result: await suggestionQueries.review(
+					suggestionId,
+					{ status: "rejected", rejection_reason: trimmed },
+					sql,
+				),
+			};
+		},
+	);
+}
@@ -1,18 +1,51 @@
-import { voteQueries } from "../database/queries";
+import { db, withTransaction } from "../database/database";
+import type { DbClient } from "../database/database";
+import {
+	languageQueries,
+	periodQueries,
+	voteQueries,
+} from "../database/queries";
+import type {
+	ScoringStrategyName,
+	Vote,
+	VotingRules,
+} from "../database/queries";
+import { describeClosedPeriod, isPeriodOpen } from "./periodService";
+import { getPointsBudget, getVotingRules } from "./rulesService";
 
 export interface VoteValidationResult {
 	isValid: boolean;
 	error?: string;
+	// El periodo de votación no admite votos
+	periodClosed?: boolean;
 }
 
+export interface VoteOperationResult<T> extends VoteValidationResult {
+	result?: T;
+}
+
+export interface BallotValidationResult extends VoteValidationResult {
+	errors?: Record<number, string>;
+}
+
+// Reparto completo de puntos del mes: languageId -> puntos
+export type BallotAllocation = Record<number, number>;
+
 /**
- * Valida las reglas básicas de votación
+ * Valida las reglas básicas de votación (incremento mínimo y máximo del mes)
  */
-export function validateBasicRules(points: number): VoteValidationResult {
-	if (points < 1 || points > 5) {
+export function validateBasicRules(
+	points: number,
+	rules: VotingRules,
+): VoteValidationResult {
+	if (
+		!Number.isInteger(points) ||
+		points < rules.min_increment ||
+		points > rules.max_increment
+	) {
 		return {
 			isValid: false,
-			error: "Points must be between 1 and 5",
+			error: `Points must be between ${rules.min_increment} and ${rules.max_increment}`,
 		};
 	}
 
@@ -20,28 +53,469 @@ export function validateBasicRules(points: number): VoteValidationResult {
 }
 
 /**
- * Valida el límite por lenguaje (máximo 5 puntos por lenguaje por mes)
+ * Valida que el periodo de votación del mes esté abierto, bloqueándolo
+ * hasta el fin de la transacción para que no se cierre a mitad de un voto
+ */
+export async function validateVotingPeriod(
+	month: string,
+	sql: DbClient,
+): Promise<VoteValidationResult> {
+	const period = await periodQueries.getPeriodForShare(month, sql);
+	if (!isPeriodOpen(period)) {
+		return {
+			isValid: false,
+			error: describeClosedPeriod(month, period),
+			periodClosed: true,
+		};
+	}
+
+	return { isValid: true };
+}
+
+export interface ScoringStrategy {
+	name: ScoringStrategyName;
+	// Presupuesto consumido por un reparto
+	cost(allocation: BallotAllocation): number;
+	// Valida agregar puntos a un lenguaje partiendo del reparto actual
+	validateAdd(
+		current: BallotAllocation,
+		languageId: number,
+		points: number,
+		rules: VotingRules,
+		budget: number,
+	): VoteValidationResult;
+	// Valida los valores de una papeleta completa
+	validateBallot(
+		allocation: BallotAllocation,
+		rules: VotingRules,
+		budget: number,
+	): BallotValidationResult;
+	// Valor que queda cuando un usuario había votado a dos lenguajes que se
+	// fusionan; others es su reparto del mes en el resto de lenguajes
+	merge(
+		sourcePoints: number,
+		targetPoints: number,
+		rules: VotingRules,
+		others: BallotAllocation,
+		budget: number,
+	): number;
+	// Reparto resultante de fusionar dos cuentas: se conserva el de target y
+	// se le añade lo que quepa de source sin pasar del presupuesto
+	combine(
+		target: BallotAllocation,
+		source: BallotAllocation,
+		rules: VotingRules,
+		budget: number,
+	): BallotAllocation;
+}
+
+// Valida que cada valor de la papeleta sea un entero entre 0 y max
+function validateAllocationRange(
+	allocation: BallotAllocation,
+	max: number,
+	label: string,
+): Record<number, string> {
+	const errors: Record<number, string> = {};
+	for (const [languageId, points] of Object.entries(allocation)) {
+		if (!Number.isInteger(points) || points < 0) {
+			errors[Number(languageId)] = `${label} must be a non-negative integer`;
+		} else if (points > max) {
+			errors[Number(languageId)] = `Cannot exceed ${max} ${label.toLowerCase()} per language`;
+		}
+	}
+	return errors;
+}
+
+function sumAllocation(allocation: BallotAllocation): number {
+	return Object.values(allocation).reduce((sum, points) => sum + points, 0);
+}
+
+function countAllocation(allocation: BallotAllocation): number {
+	return Object.values(allocation).filter((points) => points > 0).length;
+}
+
+// Suma los puntos de source sobre target, lenguaje a lenguaje (de más a
+// menos puntos), sin pasar del máximo por lenguaje ni del presupuesto
+function addWithinBudget(
+	strategy: ScoringStrategy,
+	target: BallotAllocation,
+	source: BallotAllocation,
+	cap: number,
+	budget: number,
+): BallotAllocation {
+	const combined = { ...target };
+	const languages = Object.entries(source)
+		.map(([languageId, points]) => [Number(languageId), points] as const)
+		.filter(([, points]) => points > 0)
+		.sort((a, b) => b[1] - a[1]);
+
+	for (const [languageId, points] of languages) {
+		const current = combined[languageId] ?? 0;
+		let value = Math.min(current + points, cap);
+		while (
+			value > current &&
+			strategy.cost({ ...combined, [languageId]: value }) > budget
+		) {
+			value--;
+		}
+		if (value > current) combined[languageId] = value;
+	}
+
+	return combined;
+}
+
+function ballotResult(
+	errors: Record<number, string>,
+	cost: number,
+	budget: number,
+	unit: string,
+): BallotValidationResult {
+	if (Object.keys(errors).length > 0) {
+		return { isValid: false, error: "Some allocations are invalid", errors };
+	}
+	if (cost > budget) {
+		return {
+			isValid: false,
+			error: `Ballot uses ${cost} ${unit} but you only have ${budget} this month.`,
+		};
+	}
+	return { isValid: true };
+}
+
+/**
+ * Puntos lineales: cada punto cuesta uno del presupuesto
+ */
+const linearStrategy: ScoringStrategy = {
+	name: "linear",
+	cost: sumAllocation,
+	validateAdd(current, languageId, points, rules, budget) {
+		const basicValidation = validateBasicRules(points, rules);
+		if (!basicValidation.isValid) {
+			return basicValidation;
+		}
+
+		const currentLanguagePoints = current[languageId] ?? 0;
+		const cap = rules.max_points_per_language;
+		if (currentLanguagePoints + points > cap) {
+			const remaining = Math.max(0, cap - currentLanguagePoints);
+			return {
+				isValid: false,
+				error: `Cannot exceed ${cap} points per language. This language has ${currentLanguagePoints} points, you can add ${remaining} more.`,
+			};
+		}
+
+		const used = this.cost(current);
+		if (used + points > budget) {
+			return {
+				isValid: false,
+				error: `Not enough points remaining. You have ${Math.max(0, budget - used)} points left this month.`,
+			};
+		}
+
+		return { isValid: true };
+	},
+	validateBallot(allocation, rules, budget) {
+		const errors = validateAllocationRange(
+			allocation,
+			rules.max_points_per_language,
+			"Points",
+		);
+		return ballotResult(errors, this.cost(allocation), budget, "points");
+	},
+	merge(sourcePoints, targetPoints, rules) {
+		return Math.min(sourcePoints + targetPoints, rules.max_points_per_language);
+	},
+	combine(target, source, rules, budget) {
+		return addWithinBudget(
+			this,
+			target,
+			source,
+			rules.max_points_per_language,
+			budget,
+		);
+	},
+};
+
+/**
+ * Voto cuadrático: n votos a un lenguaje cuestan n² créditos del presupuesto
  */
-export async function validateLanguageLimit(
+const quadraticStrategy: ScoringStrategy = {
+	name: "quadratic",
+	cost(allocation) {
+		return Object.values(allocation).reduce(
+			(sum, votes) => sum + votes * votes,
+			0,
+		);
+	},
+	validateAdd(current, languageId, points, rules, budget) {
+		const basicValidation = validateBasicRules(points, rules);
+		if (!basicValidation.isValid) {
+			return basicValidation;
+		}
+
+		const currentVotes = current[languageId] ?? 0;
+		const cap = rules.max_points_per_language;
+		if (currentVotes + points > cap) {
+			return {
+				isValid: false,
+				error: `Cannot exceed ${cap} votes per language. This language has ${currentVotes} votes from you.`,
+			};
+		}
+
+		const used = this.cost(current);
+		const newCost = this.cost({ ...current, [languageId]: currentVotes + points });
+		if (newCost > budget) {
+			return {
+				isValid: false,
+				error: `Quadratic voting: this would cost ${newCost - used} credits but you only have ${Math.max(0, budget - used)} left this month.`,
+			};
+		}
+
+		return { isValid: true };
+	},
+	validateBallot(allocation, rules, budget) {
+		const errors = validateAllocationRange(
+			allocation,
+			rules.max_points_per_language,
+			"Votes",
+		);
+		return ballotResult(errors, this.cost(allocation), budget, "credits");
+	},
+	// (a+b)² > a²+b²: además del máximo por lenguaje, el valor combinado se
+	// recorta hasta que el coste del mes vuelva a caber en el presupuesto.
+	// Nunca baja del mayor de los dos votos, que ya cabía
+	merge(sourcePoints, targetPoints, rules, others, budget) {
+		const othersCost = this.cost(others);
+		const floor = Math.max(sourcePoints, targetPoints);
+		let merged = Math.min(
+			sourcePoints + targetPoints,
+			rules.max_points_per_language,
+		);
+		while (merged > floor && othersCost + merged * merged > budget) {
+			merged--;
+		}
+		return merged;
+	},
+	combine(target, source, rules, budget) {
+		return addWithinBudget(
+			this,
+			target,
+			source,
+			rules.max_points_per_language,
+			budget,
+		);
+	},
+};
+
+/**
+ * Recuento Borda: el usuario ordena hasta points_budget lenguajes y cada
+ * valor de la papeleta es la posición (1 = primero)
+ */
+const bordaStrategy: ScoringStrategy = {
+	name: "borda",
+	cost: countAllocation,
+	validateAdd() {
+		return {
+			isValid: false,
+			error: "This month uses Borda count. Submit an ordered ballot instead of adding points.",
+		};
+	},
+	validateBallot(allocation, rules, budget) {
+		const errors = validateAllocationRange(
+			allocation,
+			rules.points_budget,
+			"Position",
+		);
+		const usedPositions = new Map<number, number>();
+		for (const [languageId, position] of Object.entries(allocation)) {
+			if (position <= 0 || errors[Number(languageId)]) continue;
+
+			const takenBy = usedPositions.get(position);
+			if (takenBy !== undefined) {
+				errors[Number(languageId)] = `Position ${position} is already used by language ${takenBy}`;
+			} else {
+				usedPositions.set(position, Number(languageId));
+			}
+		}
+		return ballotResult(errors, this.cost(allocation), budget, "positions");
+	},
+	// Se conserva la mejor de las dos posiciones
+	merge(sourcePoints, targetPoints) {
+		return Math.min(sourcePoints, targetPoints);
+	},
+	// Los lenguajes que solo ordenó source van detrás de los de target,
+	// en el orden de source, mientras queden posiciones
+	combine(target, source, rules, budget) {
+		const combined = { ...target };
+		let position = Math.max(0, ...Object.values(target));
+		const additions = Object.entries(source)
+			.filter(
+				([languageId, sourcePosition]) =>
+					sourcePosition > 0 && !(target[Number(languageId)] ?? 0),
+			)
+			.sort((a, b) => a[1] - b[1]);
+
+		for (const [languageId] of additions) {
+			if (this.cost(combined) >= budget || position >= rules.points_budget) {
+				break;
+			}
+			position++;
+			combined[Number(languageId)] = position;
+		}
+		return combined;
+	},
+};
+
+/**
+ * Voto por aprobación: cada lenguaje se aprueba o no, hasta points_budget aprobaciones
+ */
+const approvalStrategy: ScoringStrategy = {
+	name: "approval",
+	cost: countAllocation,
+	validateAdd(current, languageId, points, _rules, budget) {
+		if (points !== 1) {
+			return {
+				isValid: false,
+				error: "Approval voting: a language can only be approved with 1 point",
+			};
+		}
+		if ((current[languageId] ?? 0) > 0) {
+			return {
+				isValid: false,
+				error: "You already approved this language this month.",
+			};
+		}
+		if (this.cost(current) + 1 > budget) {
+			return {
+				isValid: false,
+				error: `You can approve at most ${budget} languages this month.`,
+			};
+		}
+
+		return { isValid: true };
+	},
+	validateBallot(allocation, _rules, budget) {
+		const errors = validateAllocationRange(allocation, 1, "Approvals");
+		return ballotResult(errors, this.cost(allocation), budget, "approvals");
+	},
+	merge() {
+		return 1;
+	},
+	combine(target, source, _rules, budget) {
+		return addWithinBudget(this, target, source, 1, budget);
+	},
+};
+
+const scoringStrategies: Record<ScoringStrategyName, ScoringStrategy> = {
+	linear: linearStrategy,
+	quadratic: quadraticStrategy,
+	borda: bordaStrategy,
+	approval: approvalStrategy,
+};
+
+/**
+ * Obtiene la estrategia de puntuación configurada en las reglas del mes
+ */
+export function getScoringStrategy(rules: VotingRules): ScoringStrategy {
+	return scoringStrategies[rules.scoring_strategy] ?? linearStrategy;
+}
+
+/**
+ * Un lenguaje archivado sigue en el historial pero ya no admite votos
+ */
+async function validateLanguageOpen(
+	languageId: number,
+	sql: DbClient,
+): Promise<VoteValidationResult> {
+	const archivedIds = await languageQueries.getArchivedLanguageIds(
+		[languageId],
+		sql,
+	);
+	if (archivedIds.length > 0) {
+		return {
+			isValid: false,
+			error: "This language is archived and no longer accepts votes.",
+		};
+	}
+	return { isValid: true };
+}
+
+/**
+ * Validación completa para agregar puntos según la estrategia del mes
+ */
+export async function validateAddVote(
 	userId: number,
 	languageId: number,
 	pointsToAdd: number,
 	month: string,
+	sql: DbClient = db,
 ): Promise<VoteValidationResult> {
-	const existingVotes = await voteQueries.getUserMonthlyVotes(userId, month);
-	const languageVotes = existingVotes.filter(
-		(v: { language_id: number }) => v.language_id === languageId,
+	const languageValidation = await validateLanguageOpen(languageId, sql);
+	if (!languageValidation.isValid) {
+		return languageValidation;
+	}
+
+	const rules = await getVotingRules(month, sql);
+	const budget = await getPointsBudget(userId, month, rules, sql);
+	const current = await voteQueries.getUserAllocation(userId, month, sql);
+
+	return getScoringStrategy(rules).validateAdd(
+		current,
+		languageId,
+		pointsToAdd,
+		rules,
+		budget,
 	);
-	const currentLanguagePoints = languageVotes.reduce(
-		(sum: number, vote: { points: number }) => sum + vote.points,
-		0,
+}
+
+/**
+ * Estado de votación de un usuario en un mes: reparto, presupuesto y consumo
+ */
+export async function getUserVotingStatus(
+	userId: number,
+	month: string,
+	sql: DbClient = db,
+): Promise<{
+	rules: VotingRules;
+	allocation: BallotAllocation;
+	budget: number;
+	used: number;
+	remaining: number;
+}> {
+	const rules = await getVotingRules(month, sql);
+	const budget = await getPointsBudget(userId, month, rules, sql);
+	const allocation = await voteQueries.getUserAllocation(userId, month, sql);
+	const used = getScoringStrategy(rules).cost(allocation);
+
+	return {
+		rules,
+		allocation,
+		budget,
+		used,
+		remaining: Math.max(0, budget - used),
+	};
+}
+
+/**
+ * Valida la retirada de los puntos de un lenguaje en el mes actual
+ */
+export async function validateRemoveVote(
+	userId: number,
+	languageId: number,
+	month: string,
+	sql: DbClient = db,
+): Promise<VoteValidationResult> {
+	const languagePoints = await voteQueries.getUserLanguagePoints(
+		userId,
+		languageId,
+		month,
+		sql,
 	);
 
-	if (currentLanguagePoints + pointsToAdd > 5) {
-		const remaining = 5 - currentLanguagePoints;
+	if (languagePoints === 0) {
 		return {
 			isValid: false,
-			error: `Cannot exceed 5 points per language. This language has ${currentLanguagePoints} points, you can add ${remaining} more.`,
+			error: "You have no points on this language this month.",
 		};
 	}
 
@@ -49,20 +523,63 @@ export async function validateLanguageLimit(
 }
 
 /**
- * Valida el total de puntos disponibles para un usuario (máximo 10 por mes)
+ * Valida mover puntos de un lenguaje a otro: el reparto resultante
+ * debe seguir siendo válido para la estrategia del mes
  */
-export async function validateTotalPoints(
+export async function validateMoveVote(
 	userId: number,
-	pointsToAdd: number,
+	fromLanguageId: number,
+	toLanguageId: number,
+	points: number,
 	month: string,
+	sql: DbClient = db,
 ): Promise<VoteValidationResult> {
-	const monthlyPoints = await voteQueries.getUserMonthlyPoints(userId, month);
+	const rules = await getVotingRules(month, sql);
+	const strategy = getScoringStrategy(rules);
+
+	if (strategy.name === "borda") {
+		return {
+			isValid: false,
+			error: "This month uses Borda count. Submit an ordered ballot to change your ranking.",
+		};
+	}
+
+	if (!Number.isInteger(points) || points < 1) {
+		return { isValid: false, error: "Points must be a positive integer" };
+	}
+
+	if (fromLanguageId === toLanguageId) {
+		return {
+			isValid: false,
+			error: "Source and target languages must be different",
+		};
+	}
+
+	const targetValidation = await validateLanguageOpen(toLanguageId, sql);
+	if (!targetValidation.isValid) {
+		return targetValidation;
+	}
+
+	const current = await voteQueries.getUserAllocation(userId, month, sql);
+	const sourcePoints = current[fromLanguageId] ?? 0;
+	if (sourcePoints < points) {
+		return {
+			isValid: false,
+			error: `Cannot move ${points} points. The source language only has ${sourcePoints} points from you this month.`,
+		};
+	}
 
-	if (monthlyPoints.total_points + pointsToAdd > 10) {
-		const remaining = 10 - monthlyPoints.total_points;
+	const budget = await getPointsBudget(userId, month, rules, sql);
+	const moved = {
+		...current,
+		[fromLanguageId]: sourcePoints - points,
+		[toLanguageId]: (current[toLanguageId] ?? 0) + points,
+	};
+	const validation = strategy.validateBallot(moved, rules, budget);
+	if (!validation.isValid) {
 		return {
 			isValid: false,
-			error: `Not enough points remaining. You have ${remaining} points left this month.`,
+			error: validation.errors?.[toLanguageId] ?? validation.error,
 		};
 	}
 
@@ -70,38 +587,256 @@ export async function validateTotalPoints(
 }
 
 /**
- * Validación completa para agregar puntos - sistema acumulativo
+ * Registra puntos para un lenguaje: valida e inserta en una misma transacción
+ * con la fila mensual del usuario bloqueada, de modo que peticiones paralelas
+ * no puedan superar los límites del mes
  */
-export async function validateAddVote(
+export async function recordVote(
 	userId: number,
 	languageId: number,
-	pointsToAdd: number,
+	points: number,
 	month: string,
-): Promise<VoteValidationResult> {
-	// Validar reglas básicas
-	const basicValidation = validateBasicRules(pointsToAdd);
-	if (!basicValidation.isValid) {
-		return basicValidation;
-	}
+): Promise<VoteOperationResult<Vote>> {
+	return await withTransaction(async (sql) => {
+		const periodValidation = await validateVotingPeriod(month, sql);
+		if (!periodValidation.isValid) {
+			return periodValidation;
+		}
 
-	// Validar límite por lenguaje (máximo 5 puntos por lenguaje)
-	const languageValidation = await validateLanguageLimit(
-		userId,
-		languageId,
-		pointsToAdd,
-		month,
+		await voteQueries.lockUserMonth(userId, month, sql);
+
+		const validation = await validateAddVote(
+			userId,
+			languageId,
+			points,
+			month,
+			sql,
+		);
+		if (!validation.isValid) {
+			return validation;
+		}
+
+		const vote = await voteQueries.addVote(
+			userId,
+			languageId,
+			points,
+			month,
+			sql,
+		);
+		await voteQueries.syncUserMonthlyTotals(userId, month, sql);
+
+		return { isValid: true, result: vote };
+	});
+}
+
+/**
+ * Retira los puntos de un lenguaje de forma transaccional
+ */
+export async function retractVote(
+	userId: number,
+	languageId: number,
+	month: string,
+): Promise<VoteOperationResult<number>> {
+	return await withTransaction(async (sql) => {
+		const periodValidation = await validateVotingPeriod(month, sql);
+		if (!periodValidation.isValid) {
+			return periodValidation;
+		}
+
+		await voteQueries.lockUserMonth(userId, month, sql);
+
+		const validation = await validateRemoveVote(
+			userId,
+			languageId,
+			month,
+			sql,
+		);
+		if (!validation.isValid) {
+			return validation;
+		}
+
+		const removedPoints = await voteQueries.removeLanguageVotes(
+			userId,
+			languageId,
+			month,
+			sql,
+		);
+		await voteQueries.syncUserMonthlyTotals(userId, month, sql);
+
+		return { isValid: true, result: removedPoints };
+	});
+}
+
+/**
+ * Mueve puntos entre lenguajes de forma transaccional
+ */
+export async function moveVotePoints(
+	userId: number,
+	fromLanguageId: number,
+	toLanguageId: number,
+	points: number,
+	month: string,
+): Promise<VoteOperationResult<Vote>> {
+	return await withTransaction(async (sql) => {
+		const periodValidation = await validateVotingPeriod(month, sql);
+		if (!periodValidation.isValid) {
+			return periodValidation;
+		}
+
+		await voteQueries.lockUserMonth(userId, month, sql);
+
+		const validation = await validateMoveVote(
+			userId,
+			fromLanguageId,
+			toLanguageId,
+			points,
+			month,
+			sql,
+		);
+		if (!validation.isValid) {
+			return validation;
+		}
+
+		const vote = await voteQueries.movePoints(
+			userId,
+			fromLanguageId,
+			toLanguageId,
+			points,
+			month,
+			sql,
+		);
+		await voteQueries.syncUserMonthlyTotals(userId, month, sql);
+
+		return { isValid: true, result: vote };
+	});
+}
+
+/**
+ * Valida una papeleta completa como un todo: cada lenguaje con puntos debe
+ * existir y no estar archivado, y el reparto debe cumplir los límites de la
+ * estrategia del mes
+ */
+export async function validateBallot(
+	allocation: BallotAllocation,
+	rules: VotingRules,
+	budget: number,
+	sql: DbClient = db,
+): Promise<BallotValidationResult> {
+	const languageIds = Object.keys(allocation).map(Number);
+	const existingIds = new Set(
+		await languageQueries.getExistingLanguageIds(languageIds, sql),
 	);
-	if (!languageValidation.isValid) {
-		return languageValidation;
+	const archivedIds = new Set(
+		await languageQueries.getArchivedLanguageIds(languageIds, sql),
+	);
+
+	const errors: Record<number, string> = {};
+	for (const languageId of languageIds) {
+		if (!existingIds.has(languageId)) {
+			errors[languageId] = "Language not found";
+		} else if (
+			archivedIds.has(languageId) &&
+			(allocation[languageId] ?? 0) > 0
+		) {
+			// Dejar a 0 un lenguaje archivado sí se permite (retira los puntos)
+			errors[languageId] = "Language is archived";
+		}
+	}
+	if (Object.keys(errors).length > 0) {
+		return { isValid: false, error: "Some allocations are invalid", errors };
 	}
 
-	// Validar total de puntos disponibles (máximo 10 por mes)
-	const totalValidation = await validateTotalPoints(userId, pointsToAdd, month);
-	if (!totalValidation.isValid) {
-		return totalValidation;
+	return getScoringStrategy(rules).validateBallot(allocation, rules, budget);
+}
+
+/**
+ * Sustituye el reparto del mes del usuario por la papeleta recibida.
+ * Los lenguajes que no aparecen en la papeleta quedan sin puntos.
+ * Todo se aplica en una transacción o no se aplica nada.
+ */
+export async function submitBallot(
+	userId: number,
+	allocation: BallotAllocation,
+	month: string,
+): Promise<VoteOperationResult<BallotAllocation> & BallotValidationResult> {
+	return await withTransaction(async (sql) => {
+		const periodValidation = await validateVotingPeriod(month, sql);
+		if (!periodValidation.isValid) {
+			return periodValidation;
+		}
+
+		await voteQueries.lockUserMonth(userId, month, sql);
+
+		const rules = await getVotingRules(month, sql);
+		const budget = await getPointsBudget(userId, month, rules, sql);
+		const validation = await validateBallot(allocation, rules, budget, sql);
+		if (!validation.isValid) {
+			return validation;
+		}
+
+		return {
+			isValid: true,
+			result: await replaceUserAllocation(userId, allocation, month, sql),
+		};
+	});
+}
+
+/**
+ * Reescribe el reparto del mes de un usuario (sin validar: el llamador ya
+ * tiene bloqueado el mes y ha comprobado la papeleta)
+ */
+export async function replaceUserAllocation(
+	userId: number,
+	allocation: BallotAllocation,
+	month: string,
+	sql: DbClient,
+): Promise<BallotAllocation> {
+	const current = await voteQueries.getUserAllocation(userId, month, sql);
+	const languageIds = new Set([
+		...Object.keys(current).map(Number),
+		...Object.keys(allocation).map(Number),
+	]);
+
+	// Solo se reescriben los lenguajes cuyo reparto cambia
+	for (const languageId of languageIds) {
+		const target = allocation[languageId] ?? 0;
+		if ((current[languageId] ?? 0) === target) continue;
+
+		await voteQueries.removeLanguageVotes(userId, languageId, month, sql);
+		if (target > 0) {
+			await voteQueries.insertVote(userId, languageId, target, month, sql);
+		}
 	}
+	await voteQueries.syncUserMonthlyTotals(userId, month, sql);
 
-	return { isValid: true };
+	return await voteQueries.getUserAllocation(userId, month, sql);
+}
+
+/**
+ * Reparto del mes que tendría target tras absorber los votos de source,
+ * según la estrategia del mes y el presupuesto de target
+ */
+export async function getCombinedAllocation(
+	targetUserId: number,
+	sourceUserId: number,
+	month: string,
+	sql: DbClient = db,
+): Promise<{
+	budget: number;
+	target: BallotAllocation;
+	source: BallotAllocation;
+	combined: BallotAllocation;
+}> {
+	const status = await getUserVotingStatus(targetUserId, month, sql);
+	const source = await voteQueries.getUserAllocation(sourceUserId, month, sql);
+	const combined = getScoringStrategy(status.rules).combine(
+		status.allocation,
+		source,
+		status.rules,
+		status.budget,
+	);
+
+	return { budget: status.budget, target: status.allocation, source, combined };
 }
 
 /**
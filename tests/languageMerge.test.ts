@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { db } from "../src/database/database";
+import type { LanguageSuggestion } from "../src/database/queries";
+import {
+	languageQueries,
+	revisionQueries,
+	suggestionQueries,
+	voteQueries,
+} from "../src/database/queries";
+import { mergeLanguages } from "../src/services/languageAdminService";
+import { getScoringStrategy } from "../src/services/voteService";
+import {
+	cleanupTestData,
+	createTestLanguage,
+	createTestUser,
+	LINEAR_RULES,
+	setTestRules,
+	setupTestDatabase,
+	uniqueName,
+} from "./testDatabase";
+
+// Mes pasado y fijo: la fusión reescribe votos de cualquier mes
+const MONTH = "2002-01";
+const QUADRATIC_RULES = {
+	...LINEAR_RULES,
+	scoring_strategy: "quadratic" as const,
+};
+
+describe("language merge", () => {
+	const userIds: number[] = [];
+	const languageIds: number[] = [];
+
+	beforeAll(async () => {
+		await setupTestDatabase();
+		await setTestRules(MONTH, QUADRATIC_RULES);
+	});
+
+	afterAll(async () => {
+		await cleanupTestData(userIds, languageIds);
+	});
+
+	async function createLanguages(count: number): Promise<number[]> {
+		const ids: number[] = [];
+		for (let i = 0; i < count; i++) {
+			ids.push((await createTestLanguage()).id);
+		}
+		languageIds.push(...ids);
+		return ids;
+	}
+
+	test("keeps a quadratic ballot within the monthly budget", async () => {
+		const [source, target, other] = (await createLanguages(3)) as [
+			number,
+			number,
+			number,
+		];
+		const user = await createTestUser();
+		userIds.push(user.id);
+		// 2² + 2² + 1² = 9 de 10 créditos
+		await voteQueries.insertVote(user.id, source, 2, MONTH);
+		await voteQueries.insertVote(user.id, target, 2, MONTH);
+		await voteQueries.insertVote(user.id, other, 1, MONTH);
+
+		const merged = await mergeLanguages(source, target);
+
+		expect(merged.isValid).toBe(true);
+		// 4 votos costarían 16 + 1: se recorta a 3 (9 + 1 = 10)
+		expect(merged.result?.conflicts).toEqual([
+			{
+				user_id: user.id,
+				vote_month: MONTH,
+				source_points: 2,
+				target_points: 2,
+				merged_points: 3,
+				budget_limited: true,
+			},
+		]);
+		const allocation = await voteQueries.getUserAllocation(user.id, MONTH);
+		expect(allocation).toEqual({ [target]: 3, [other]: 1 });
+		expect(
+			getScoringStrategy({ ...QUADRATIC_RULES, vote_month: MONTH }).cost(
+				allocation,
+			),
+		).toBeLessThanOrEqual(QUADRATIC_RULES.points_budget);
+	});
+
+	test("does not flag merges that fit the budget", async () => {
+		const [source, target] = (await createLanguages(2)) as [number, number];
+		const user = await createTestUser();
+		userIds.push(user.id);
+		await voteQueries.insertVote(user.id, source, 1, MONTH);
+		await voteQueries.insertVote(user.id, target, 1, MONTH);
+
+		const merged = await mergeLanguages(source, target);
+
+		expect(merged.result?.conflicts[0]).toMatchObject({
+			merged_points: 2,
+			budget_limited: false,
+		});
+	});
+
+	test("moves revision history and suggestions to the target", async () => {
+		const [source, target] = (await createLanguages(2)) as [number, number];
+		const user = await createTestUser();
+		userIds.push(user.id);
+		const applied = await revisionQueries.createRevision({
+			language_id: source,
+			author_id: user.id,
+			status: "applied",
+			diff: { description: { from: null, to: "Duplicate" } },
+			comment: null,
+			rollback_of: null,
+		});
+		const pending = await revisionQueries.createRevision({
+			language_id: source,
+			author_id: user.id,
+			status: "pending",
+			diff: { color: { from: null, to: "#123456" } },
+			comment: null,
+			rollback_of: null,
+		});
+		const suggestion = (await suggestionQueries.createSuggestion(user.id, {
+			name: uniqueName("Suggested"),
+			description: null,
+			homepage: null,
+		})) as LanguageSuggestion;
+		await suggestionQueries.review(suggestion.id, {
+			status: "approved",
+			language_id: source,
+		});
+		const sourceName = (await languageQueries.getLanguageById(source))?.name;
+
+		const merged = await mergeLanguages(source, target);
+
+		expect(merged.isValid).toBe(true);
+		const revisions = await revisionQueries.getLanguageRevisions(target);
+		expect(revisions).toHaveLength(2);
+		expect(revisions.find((r) => r.id === applied.id)).toMatchObject({
+			status: "applied",
+			merged_from: sourceName,
+		});
+		expect(revisions.find((r) => r.id === pending.id)).toMatchObject({
+			status: "rejected",
+			merged_from: sourceName,
+		});
+		// El historial heredado no sirve para volver atrás en el destino
+		expect(await revisionQueries.getAppliedRevisions(target)).toEqual([]);
+		const [moved] = await db`
+      SELECT language_id FROM language_suggestions WHERE id = ${suggestion.id}
+    `;
+		expect(moved?.language_id).toBe(target);
+
+		await db`DELETE FROM language_suggestions WHERE id = ${suggestion.id}`;
+	});
+});
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { voteQueries } from "../src/database/queries";
+import { getPointsBudget } from "../src/services/rulesService";
+import {
+	cleanupTestData,
+	createTestLanguage,
+	createTestUser,
+	LINEAR_RULES,
+	setTestRules,
+	setupTestDatabase,
+} from "./testDatabase";
+
+// Meses ya pasados y fijos: el periodo de votación no interviene
+const PREVIOUS_MONTH = "2001-01";
+const MONTH = "2001-02";
+
+describe("carry-over budget", () => {
+	const userIds: number[] = [];
+	const languageIds: number[] = [];
+
+	beforeAll(async () => {
+		await setupTestDatabase();
+		await setTestRules(MONTH, { ...LINEAR_RULES, carry_over: true });
+		languageIds.push((await createTestLanguage()).id);
+	});
+
+	afterAll(async () => {
+		await cleanupTestData(userIds, languageIds);
+	});
+
+	async function budgetAfterVoting(points: number): Promise<number> {
+		const user = await createTestUser();
+		userIds.push(user.id);
+		await voteQueries.insertVote(
+			user.id,
+			languageIds[0] as number,
+			points,
+			PREVIOUS_MONTH,
+		);
+		return await getPointsBudget(user.id, MONTH);
+	}
+
+	test("carries over unused linear points", async () => {
+		await setTestRules(PREVIOUS_MONTH, LINEAR_RULES);
+		expect(await budgetAfterVoting(3)).toBe(10 + 7);
+	});
+
+	test("measures a quadratic month in credits", async () => {
+		await setTestRules(PREVIOUS_MONTH, {
+			...LINEAR_RULES,
+			scoring_strategy: "quadratic",
+		});
+		// 3 votos cuestan 9 de los 10 créditos: sobra 1
+		expect(await budgetAfterVoting(3)).toBe(10 + 1);
+	});
+
+	test("measures an approval month in approvals", async () => {
+		await setTestRules(PREVIOUS_MONTH, {
+			...LINEAR_RULES,
+			scoring_strategy: "approval",
+		});
+		expect(await budgetAfterVoting(1)).toBe(10 + 9);
+	});
+});
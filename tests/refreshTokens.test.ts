@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	createSessionTokens,
+	type RefreshResult,
+	refreshSessionTokens,
+	type SessionClient,
+	type SessionTokens,
+} from "../src/auth/session";
+import { db } from "../src/database/database";
+import { cleanupTestData, createTestUser, setupTestDatabase } from "./testDatabase";
+
+// Firma falsa: el "JWT" es el payload en JSON, suficiente para leer el jti
+const jwt = { sign: async (payload: object) => JSON.stringify(payload) };
+
+const BROWSER: SessionClient = { userAgent: "Firefox", ipAddress: "10.0.0.1" };
+const OTHER_DEVICE: SessionClient = { userAgent: "curl", ipAddress: "10.0.0.2" };
+
+describe("refresh token rotation", () => {
+	const userIds: number[] = [];
+
+	beforeAll(async () => {
+		await setupTestDatabase();
+	});
+
+	afterAll(async () => {
+		await cleanupTestData(userIds, []);
+	});
+
+	async function signIn(): Promise<SessionTokens> {
+		const user = await createTestUser();
+		userIds.push(user.id);
+		return await createSessionTokens(user, "github", jwt, BROWSER);
+	}
+
+	// Rota el token y devuelve las cookies nuevas
+	async function rotate(refreshToken: string): Promise<SessionTokens> {
+		const result = await refreshSessionTokens(refreshToken, jwt, BROWSER);
+		expect(result.status).toBe("refreshed");
+		return (result as Extract<RefreshResult, { status: "refreshed" }>).tokens;
+	}
+
+	test("issues a new refresh token and keeps the session", async () => {
+		const tokens = await signIn();
+		const rotated = await rotate(tokens.refreshToken);
+
+		expect(rotated.refreshToken).not.toBe(tokens.refreshToken);
+		expect(JSON.parse(rotated.accessToken).jti).toBe(
+			JSON.parse(tokens.accessToken).jti,
+		);
+		await rotate(rotated.refreshToken);
+	});
+
+	test("treats a quick replay from the same client as a race", async () => {
+		const tokens = await signIn();
+		const rotated = await rotate(tokens.refreshToken);
+
+		expect(
+			await refreshSessionTokens(tokens.refreshToken, jwt, BROWSER),
+		).toEqual({ status: "raced" });
+		// La sesión sigue viva
+		await rotate(rotated.refreshToken);
+	});
+
+	test("revokes the session on a replay from another client", async () => {
+		const tokens = await signIn();
+		const rotated = await rotate(tokens.refreshToken);
+
+		expect(
+			await refreshSessionTokens(tokens.refreshToken, jwt, OTHER_DEVICE),
+		).toEqual({ status: "reused" });
+		expect(
+			await refreshSessionTokens(rotated.refreshToken, jwt, BROWSER),
+		).toEqual({ status: "invalid" });
+	});
+
+	test("revokes the session on a late replay from the same client", async () => {
+		const tokens = await signIn();
+		const rotated = await rotate(tokens.refreshToken);
+		await db`
+      UPDATE refresh_tokens SET used_at = used_at - INTERVAL '1 minute'
+      WHERE used_at IS NOT NULL AND session_id = (
+        SELECT id FROM sessions
+        WHERE jti = ${JSON.parse(tokens.accessToken).jti}
+      )
+    `;
+
+		expect(
+			await refreshSessionTokens(tokens.refreshToken, jwt, BROWSER),
+		).toEqual({ status: "reused" });
+		expect(
+			await refreshSessionTokens(rotated.refreshToken, jwt, BROWSER),
+		).toEqual({ status: "invalid" });
+	});
+});
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { languageQueries } from "../src/database/queries";
+import {
+	applyRevision,
+	proposeRevision,
+	rollbackToRevision,
+} from "../src/services/revisionService";
+import {
+	cleanupTestData,
+	createTestLanguage,
+	createTestUser,
+	setupTestDatabase,
+} from "./testDatabase";
+
+describe("revision rollback", () => {
+	const userIds: number[] = [];
+	const languageIds: number[] = [];
+
+	beforeAll(async () => {
+		await setupTestDatabase();
+	});
+
+	afterAll(async () => {
+		await cleanupTestData(userIds, languageIds);
+	});
+
+	test("follows the order in which revisions were applied", async () => {
+		const language = await createTestLanguage();
+		languageIds.push(language.id);
+		const user = await createTestUser();
+		userIds.push(user.id);
+
+		// Se proponen color y descripción, pero se aplican al revés
+		const color = await proposeRevision(user.id, language.id, {
+			color: "#123456",
+		});
+		const description = await proposeRevision(user.id, language.id, {
+			description: "Applied first",
+		});
+		const colorId = color.result?.id as number;
+		const descriptionId = description.result?.id as number;
+		expect((await applyRevision(descriptionId)).isValid).toBe(true);
+		expect((await applyRevision(colorId)).isValid).toBe(true);
+
+		const rollback = await rollbackToRevision(language.id, descriptionId);
+
+		// Al aplicar la descripción el color aún era el original
+		expect(rollback.isValid).toBe(true);
+		expect(rollback.result?.diff).toEqual({
+			color: { from: "#123456", to: language.color },
+		});
+		expect(await languageQueries.getLanguageById(language.id)).toMatchObject({
+			color: language.color,
+			description: "Applied first",
+		});
+	});
+});
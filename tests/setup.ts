@@ -0,0 +1,3 @@
+// Los tests escriben en la base de datos: nunca se usa la de desarrollo.
+// Se ejecuta antes de importar src/database/database.ts, que lee estas variables
+process.env.DATABASE_NAME = process.env.TEST_DATABASE_NAME || "ranking_test";
@@ -0,0 +1,83 @@
+import { randomUUID } from "node:crypto";
+import { db } from "../src/database/database";
+import { runMigrations } from "../src/database/migrations";
+import type { Language, User, VotingRules } from "../src/database/queries";
+import { periodQueries, userQueries } from "../src/database/queries";
+import { syncVotingPeriods } from "../src/services/periodService";
+
+type TestRules = Omit<VotingRules, "vote_month">;
+
+// Reglas fijas para que los límites de cada test no dependan de la base de datos
+export const LINEAR_RULES: TestRules = {
+	scoring_strategy: "linear",
+	points_budget: 10,
+	max_points_per_language: 5,
+	min_increment: 1,
+	max_increment: 5,
+	carry_over: false,
+};
+
+/**
+ * Esquema al día y periodos de votación creados (el mes actual abierto)
+ */
+export async function setupTestDatabase(): Promise<void> {
+	await runMigrations();
+	await syncVotingPeriods();
+}
+
+// Nombre único para que los tests no choquen con datos de ejecuciones anteriores
+export function uniqueName(label: string): string {
+	return `${label}-${randomUUID().slice(0, 8)}`;
+}
+
+export async function createTestUser(label = "test-user"): Promise<User> {
+	return await userQueries.createUser(uniqueName(label));
+}
+
+export async function createTestLanguage(
+	label = "Test Language",
+): Promise<Language> {
+	const result = await db`
+    INSERT INTO languages (name) VALUES (${uniqueName(label)}) RETURNING *
+  `;
+	return result[0] as Language;
+}
+
+// Reglas del mes y su periodo de votación (los votos lo referencian)
+export async function setTestRules(
+	month: string,
+	rules: TestRules,
+): Promise<void> {
+	await periodQueries.ensurePeriod(month, "UTC");
+	await db`
+    INSERT INTO voting_rules (
+      vote_month, scoring_strategy, points_budget, max_points_per_language,
+      min_increment, max_increment, carry_over
+    )
+    VALUES (
+      ${month}, ${rules.scoring_strategy}, ${rules.points_budget},
+      ${rules.max_points_per_language}, ${rules.min_increment},
+      ${rules.max_increment}, ${rules.carry_over}
+    )
+    ON CONFLICT (vote_month) DO UPDATE SET
+      scoring_strategy = EXCLUDED.scoring_strategy,
+      points_budget = EXCLUDED.points_budget,
+      max_points_per_language = EXCLUDED.max_points_per_language,
+      min_increment = EXCLUDED.min_increment,
+      max_increment = EXCLUDED.max_increment,
+      carry_over = EXCLUDED.carry_over
+  `;
+}
+
+// Borra usuarios y lenguajes de prueba (los votos se van en cascada)
+export async function cleanupTestData(
+	userIds: number[],
+	languageIds: number[],
+): Promise<void> {
+	if (userIds.length > 0) {
+		await db`DELETE FROM users WHERE id IN ${db(userIds)}`;
+	}
+	if (languageIds.length > 0) {
+		await db`DELETE FROM languages WHERE id IN ${db(languageIds)}`;
+	}
+}
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { dbUtils, voteQueries } from "../src/database/queries";
+import { getScoringStrategy, recordVote, submitBallot } from "../src/services/voteService";
+import {
+	cleanupTestData,
+	createTestLanguage,
+	createTestUser,
+	LINEAR_RULES,
+	setTestRules,
+	setupTestDatabase,
+} from "./testDatabase";
+
+// Las peticiones en paralelo de un mismo usuario se serializan con el
+// bloqueo de su fila mensual: ninguna combinación puede saltarse los límites
+describe("concurrent votes for the same user and month", () => {
+	const month = dbUtils.getCurrentMonth();
+	const userIds: number[] = [];
+	const languageIds: number[] = [];
+	let userId: number;
+
+	beforeAll(async () => {
+		await setupTestDatabase();
+		await setTestRules(month, LINEAR_RULES);
+		for (let i = 0; i < 5; i++) {
+			languageIds.push((await createTestLanguage()).id);
+		}
+	});
+
+	beforeEach(async () => {
+		userId = (await createTestUser()).id;
+		userIds.push(userId);
+	});
+
+	afterAll(async () => {
+		await cleanupTestData(userIds, languageIds);
+	});
+
+	async function expectWithinLimits() {
+		const allocation = await voteQueries.getUserAllocation(userId, month);
+		const totals = await voteQueries.getUserMonthlyPoints(userId, month);
+		const strategy = getScoringStrategy({ ...LINEAR_RULES, vote_month: month });
+
+		expect(strategy.cost(allocation)).toBeLessThanOrEqual(
+			LINEAR_RULES.points_budget,
+		);
+		for (const points of Object.values(allocation)) {
+			expect(points).toBeLessThanOrEqual(LINEAR_RULES.max_points_per_language);
+		}
+		// La fila mensual sincronizada coincide con los votos
+		expect(totals.total_points).toBe(strategy.cost(allocation));
+		return allocation;
+	}
+
+	test("parallel votes on one language stop at the per-language cap", async () => {
+		const languageId = languageIds[0] as number;
+		const results = await Promise.all(
+			Array.from({ length: 10 }, () => recordVote(userId, languageId, 2, month)),
+		);
+
+		// 2 + 2 cabe en el máximo de 5; un tercer voto lo superaría
+		expect(results.filter((result) => result.isValid)).toHaveLength(2);
+		const allocation = await expectWithinLimits();
+		expect(allocation[languageId]).toBe(4);
+	});
+
+	test("parallel votes on different languages stop at the budget", async () => {
+		const results = await Promise.all(
+			languageIds.flatMap((languageId) => [
+				recordVote(userId, languageId, 3, month),
+				recordVote(userId, languageId, 3, month),
+			]),
+		);
+
+		// 3 votos de 3 puntos agotan casi todo el presupuesto de 10
+		expect(results.filter((result) => result.isValid)).toHaveLength(3);
+		await expectWithinLimits();
+	});
+
+	test("parallel ballots leave exactly one of them applied", async () => {
+		const ballots = languageIds.map((languageId, index) => ({
+			[languageId]: 5,
+			[languageIds[(index + 1) % languageIds.length] as number]: 5,
+		}));
+		const results = await Promise.all(
+			ballots.map((ballot) => submitBallot(userId, ballot, month)),
+		);
+
+		expect(results.every((result) => result.isValid)).toBe(true);
+		const allocation = await expectWithinLimits();
+		expect(ballots).toContainEqual(allocation);
+	});
+
+	test("ballots racing with single votes never exceed the limits", async () => {
+		const [first, second, third] = languageIds as [number, number, number];
+		await Promise.all([
+			submitBallot(userId, { [first]: 5, [second]: 4 }, month),
+			recordVote(userId, third, 5, month),
+			recordVote(userId, first, 3, month),
+			submitBallot(userId, { [second]: 5, [third]: 5 }, month),
+			recordVote(userId, second, 2, month),
+		]);
+
+		await expectWithinLimits();
+	});
+});